@@ -13,6 +13,9 @@ import LandingPage from "./pages/landing-page";
 import Pricing from "./pages/pricing";
 import NotFound from "@/pages/not-found";
 import CreateCounterOffer from "./pages/create-counter-offer";
+import OfferDetails from "./pages/offer-details";
+import EditOffer from "./pages/edit-offer";
+import ReviewExtraction from "./pages/review-extraction";
 import { ProtectedRoute } from "./lib/protected-route";
 
 function Router() {
@@ -26,6 +29,9 @@ function Router() {
       <ProtectedRoute path="/listings/:id" component={ListingDetails} />
       <ProtectedRoute path="/listings/:listingId/offers/:offerId/counter" component={CreateCounterOffer} />
       <ProtectedRoute path="/listings/:id/offers/create" component={CreateOffer} />
+      <ProtectedRoute path="/listings/:listingId/offers/:offerId/edit" component={EditOffer} />
+      <ProtectedRoute path="/listings/:listingId/extractions/:extractionId/review" component={ReviewExtraction} />
+      <ProtectedRoute path="/listings/:listingId/offers/:offerId" component={OfferDetails} />
       <ProtectedRoute path="/billing" component={Billing} />
       <Route component={NotFound} />
     </Switch>
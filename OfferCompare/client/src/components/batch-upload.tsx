@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ExtractionBatchResponse } from "@/lib/types";
+import { queryClient } from "@/lib/queryClient";
+import { CheckCircle, FileText, Files, Loader2, PencilLine, X } from "lucide-react";
+import { EXTRACTION_FAILURE_MESSAGES, EXTRACTION_STATUS_LABELS, ExtractionStatus, isExtractionPending } from "@shared/extraction";
+
+// Same limits as the server's batch endpoint and the single file upload
+const MAX_BATCH_FILES = 20;
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const VALID_TYPES = ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/png', 'image/jpeg'];
+
+// How often to check on the batch while documents are being read
+const BATCH_POLL_INTERVAL_MS = 3 * 1000;
+
+const STATUS_CLASSES: Record<ExtractionStatus, string> = {
+  queued: "bg-neutral-100 text-neutral-700",
+  processing: "bg-blue-100 text-blue-800",
+  succeeded: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+interface BatchUploadProps {
+  listingId: number;
+  // Called when the agent moves on to the review queue
+  onReview: () => void;
+}
+
+export default function BatchUpload({ listingId, onReview }: BatchUploadProps) {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [batchId, setBatchId] = useState<string | null>(null);
+
+  // Check on the batch until every document has been read
+  const { data: batch } = useQuery<ExtractionBatchResponse>({
+    queryKey: [`/api/extraction-batches/${batchId}`],
+    enabled: !!batchId,
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return data && data.completed >= data.total ? false : BATCH_POLL_INTERVAL_MS;
+    },
+    staleTime: 0,
+  });
+
+  const isDone = !!batch && batch.completed >= batch.total;
+
+  // Handle file selection, leaving out files the server won't take
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    const accepted = selected.filter(file => VALID_TYPES.includes(file.type) && file.size <= MAX_FILE_SIZE);
+
+    if (accepted.length < selected.length) {
+      toast({
+        title: "Some files were skipped",
+        description: "Only PDF, TXT, DOC, DOCX, PNG and JPEG files smaller than 10MB can be uploaded",
+        variant: "destructive",
+      });
+    }
+
+    const combined = [...files, ...accepted];
+    if (combined.length > MAX_BATCH_FILES) {
+      toast({
+        title: "Too many files",
+        description: `Up to ${MAX_BATCH_FILES} documents can be uploaded at once`,
+        variant: "destructive",
+      });
+    }
+    setFiles(combined.slice(0, MAX_BATCH_FILES));
+    e.target.value = "";
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(files.filter((_, i) => i !== index));
+  };
+
+  // Upload every file; each one is read in the background
+  const handleUpload = async () => {
+    setIsUploading(true);
+
+    try {
+      const formData = new FormData();
+      files.forEach(file => formData.append('documents', file));
+
+      const response = await fetch(`/api/listings/${listingId}/extractions/batch`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to upload documents');
+      }
+
+      const data: ExtractionBatchResponse = await response.json();
+      queryClient.setQueryData([`/api/extraction-batches/${data.batchId}`], data);
+      setBatchId(data.batchId);
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/extractions`] });
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const reset = () => {
+    setFiles([]);
+    setBatchId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upload Several Offers</CardTitle>
+        <CardDescription>
+          Upload every offer document you received at once. Each one is read in the background, and the results wait in the review queue on the listing until you confirm them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {batch ? (
+            <div className="space-y-4">
+              <div>
+                <div className="mb-2 flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    {isDone ? "All documents read" : "Reading documents..."}
+                  </span>
+                  <span className="text-neutral-500">{batch.completed} of {batch.total} done</span>
+                </div>
+                <Progress value={(batch.completed / batch.total) * 100} />
+              </div>
+
+              <ul className="divide-y divide-neutral-200 rounded-lg border border-neutral-200">
+                {batch.extractions.map(extraction => (
+                  <li key={extraction.id} className="flex items-center justify-between px-4 py-3">
+                    <div className="flex min-w-0 items-center gap-3">
+                      {isExtractionPending(extraction.status) ? (
+                        <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-neutral-400" />
+                      ) : extraction.status === "failed" ? (
+                        <PencilLine className="h-4 w-4 flex-shrink-0 text-red-500" />
+                      ) : (
+                        <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-600" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">{extraction.fileName}</p>
+                        {extraction.status === "failed" && extraction.failureReason && (
+                          <p className="text-xs text-neutral-500">{EXTRACTION_FAILURE_MESSAGES[extraction.failureReason]}</p>
+                        )}
+                        {extraction.extractedData?.buyerName && (
+                          <p className="text-xs text-neutral-500">{extraction.extractedData.buyerName}</p>
+                        )}
+                      </div>
+                    </div>
+                    <span className={`ml-4 rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_CLASSES[extraction.status]}`}>
+                      {EXTRACTION_STATUS_LABELS[extraction.status]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={reset}>
+                  Upload more documents
+                </Button>
+                <Button onClick={onReview}>
+                  Go to review queue
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="border border-dashed border-neutral-300 rounded-lg p-10">
+                <div className="flex flex-col items-center justify-center text-center">
+                  <div className="bg-neutral-100 rounded-full p-3 mb-4">
+                    <Files className="h-10 w-10 text-neutral-400" />
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">Select Documents</h3>
+                  <p className="text-neutral-500 mb-6">
+                    Choose up to {MAX_BATCH_FILES} offer documents
+                  </p>
+                  <Label
+                    htmlFor="batch-upload"
+                    className="bg-primary text-white rounded-md px-4 py-2 cursor-pointer hover:bg-primary-dark transition-colors"
+                  >
+                    Browse Files
+                  </Label>
+                  <Input
+                    id="batch-upload"
+                    type="file"
+                    multiple
+                    accept=".pdf,.txt,.doc,.docx,.png,.jpg,.jpeg"
+                    className="hidden"
+                    onChange={handleFileChange}
+                  />
+                </div>
+              </div>
+
+              {files.length > 0 && (
+                <div className="space-y-4">
+                  <ul className="divide-y divide-neutral-200 rounded-lg border border-neutral-200">
+                    {files.map((file, index) => (
+                      <li key={`${file.name}-${index}`} className="flex items-center justify-between px-4 py-2">
+                        <div className="flex min-w-0 items-center gap-3">
+                          <FileText className="h-4 w-4 flex-shrink-0 text-primary" />
+                          <span className="truncate text-sm">{file.name}</span>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => removeFile(index)} disabled={isUploading}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-end">
+                    <Button onClick={handleUpload} disabled={isUploading}>
+                      {isUploading ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Uploading...
+                        </>
+                      ) : (
+                        <>Process {files.length} {files.length === 1 ? "Document" : "Documents"}</>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter className="text-sm text-neutral-500 justify-between border-t pt-4">
+        <div>Each document that offer details are extracted from is billed like a single upload</div>
+        <div>Max {MAX_BATCH_FILES} files, 10MB each</div>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -1,22 +1,94 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { apiRequest } from "@/lib/queryClient";
-import { FileText, Upload, CheckCircle, Loader2 } from "lucide-react";
+import { ExtractionResponse } from "@/lib/types";
+import { FileText, Upload, CheckCircle, Loader2, AlertTriangle, PencilLine } from "lucide-react";
+import {
+  EXTRACTED_FIELDS,
+  EXTRACTED_FIELD_LABELS,
+  EXTRACTION_FAILURE_MESSAGES,
+  REQUIRED_EXTRACTED_FIELDS,
+  isExtractionPending,
+  isLowConfidence,
+} from "@shared/extraction";
+
+// Warn about scanned pages OCR read with less confidence than this (0-1)
+const OCR_WARNING_CONFIDENCE = 0.7;
+
+// How often to check on an extraction that is waiting for a retry
+const RETRY_POLL_INTERVAL_MS = 15 * 1000;
+
+// How often to check on a scan being read in the background
+const SCAN_POLL_INTERVAL_MS = 3 * 1000;
 
 interface FileUploadProps {
   listingId: number;
-  onExtracted: (extractedData: any) => void;
+  // Called with a completed extraction, to review it against the document
+  onExtracted: (extraction: ExtractionResponse) => void;
+  // Called when the agent gives up on extraction and types the offer in
+  onManualEntry?: () => void;
+}
+
+function isCompleted(extraction: ExtractionResponse | null): boolean {
+  return extraction?.status === "succeeded" || extraction?.status === "partial";
+}
+
+// Scanned documents are read with OCR in the background after the upload
+function isReadingScan(extraction: ExtractionResponse | null): boolean {
+  return extraction != null && isExtractionPending(extraction.status) && extraction.failureReason == null;
 }
 
-export default function FileUpload({ listingId, onExtracted }: FileUploadProps) {
+export default function FileUpload({ listingId, onExtracted, onManualEntry }: FileUploadProps) {
   const { toast } = useToast();
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [isSuccess, setIsSuccess] = useState(false);
+  const [extraction, setExtraction] = useState<ExtractionResponse | null>(null);
+  // Whether the extraction has been handed on for review
+  const [isApplied, setIsApplied] = useState(false);
+  
+  // Queued extractions are read or retried on the server; check back until they finish
+  const { data: polledExtraction } = useQuery<ExtractionResponse>({
+    queryKey: [`/api/extractions/${extraction?.id}`],
+    enabled: extraction != null && isExtractionPending(extraction.status),
+    refetchInterval: isReadingScan(extraction) ? SCAN_POLL_INTERVAL_MS : RETRY_POLL_INTERVAL_MS,
+    staleTime: 0,
+  });
+  
+  useEffect(() => {
+    if (polledExtraction && polledExtraction.id === extraction?.id && polledExtraction.status !== extraction.status) {
+      // A scan that has been read is handled like a document read during the upload
+      if (isReadingScan(extraction) && !isExtractionPending(polledExtraction.status)) {
+        handleExtraction(polledExtraction);
+      } else {
+        setExtraction(polledExtraction);
+      }
+    }
+  }, [polledExtraction, extraction]);
+  
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/extractions/${id}/retry`);
+      return await res.json() as ExtractionResponse;
+    },
+    onSuccess: (data) => handleExtraction(data),
+    onError: (error: Error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Extracted fields to check by hand, and required fields the document didn't state
+  const evidence = extraction?.evidence ?? {};
+  const reviewFields = EXTRACTED_FIELDS.filter(field => evidence[field] && isLowConfidence(evidence[field]) && extraction?.extractedData?.[field] != null);
+  const missingFields = REQUIRED_EXTRACTED_FIELDS.filter(field => extraction?.extractedData?.[field] == null);
   
   // Handle file selection
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -24,12 +96,12 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
     
     if (selectedFile) {
       // Check file type
-      const validTypes = ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+      const validTypes = ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/png', 'image/jpeg'];
       
       if (!validTypes.includes(selectedFile.type)) {
         toast({
           title: "Invalid file type",
-          description: "Please upload a PDF, TXT, DOC, or DOCX file",
+          description: "Please upload a PDF, TXT, DOC, DOCX, PNG or JPEG file",
           variant: "destructive",
         });
         return;
@@ -46,7 +118,8 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
       }
       
       setFile(selectedFile);
-      setIsSuccess(false);
+      setExtraction(null);
+      setIsApplied(false);
     }
   };
   
@@ -77,24 +150,14 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
       });
       
       if (!response.ok) {
-        throw new Error('Failed to extract offer details');
+        // Unsupported, password-protected and unreadable files come back with an explanation
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || 'Failed to extract offer details');
       }
       
-      const data = await response.json();
-      
-      // Update UI
-      setIsSuccess(true);
+      const data: ExtractionResponse = await response.json();
       setIsUploading(false);
-      
-      // Notify success
-      toast({
-        title: "Document processed successfully",
-        description: "Offer details have been extracted",
-        variant: "default",
-      });
-      
-      // Pass extracted data to parent
-      onExtracted(data.extractedData);
+      handleExtraction(data);
       
     } catch (error) {
       setIsUploading(false);
@@ -107,35 +170,174 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
     }
   };
   
+  // Show what the extraction found, or that the offer needs to be typed in
+  const handleExtraction = (data: ExtractionResponse) => {
+    setExtraction(data);
+    setIsApplied(false);
+    
+    if (isCompleted(data)) {
+      applyExtraction(data);
+      return;
+    }
+    
+    if (isReadingScan(data)) {
+      toast({
+        title: "Reading scanned document",
+        description: "Scanned pages are read in the background, which can take a minute",
+      });
+      return;
+    }
+    
+    toast({
+      title: "Needs manual entry",
+      description: data.failureReason ? EXTRACTION_FAILURE_MESSAGES[data.failureReason] : "Offer details couldn't be extracted",
+      variant: "destructive",
+    });
+  };
+  
+  // Hand the extraction on for review
+  const applyExtraction = (data: ExtractionResponse) => {
+    setIsApplied(true);
+    
+    // Notify success, with a warning when scanned pages were hard to read
+    const lowConfidencePages = (data.document?.pages ?? [])
+      .filter(page => page.source === "ocr" && (page.confidence ?? 0) < OCR_WARNING_CONFIDENCE)
+      .map(page => page.pageNumber);
+    const warnings = [
+      data.status === "partial" ? "Some details weren't found in the document, so fill them in by hand." : null,
+      lowConfidencePages.length > 0 ? `Some scanned pages were hard to read (page ${lowConfidencePages.join(", ")}). Double-check the values.` : null,
+    ].filter(Boolean);
+    toast({
+      title: data.status === "partial" ? "Document partly processed" : "Document processed successfully",
+      description: warnings.length > 0 ? `Offer details have been extracted. ${warnings.join(" ")}` : "Offer details have been extracted",
+      variant: "default",
+    });
+    
+    // Pass the extraction to parent
+    onExtracted(data);
+  };
+  
+  const reset = () => {
+    setFile(null);
+    setExtraction(null);
+    setIsApplied(false);
+  };
+  
   return (
     <Card>
       <CardHeader>
         <CardTitle>Upload Offer Document</CardTitle>
         <CardDescription>
-          Upload a PDF, DOC, or DOCX file containing the offer details. Our AI will automatically extract key information.
+          Upload a PDF, DOC, DOCX or TXT file containing the offer details. Our AI will automatically extract key information.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
           <div className="border border-dashed border-neutral-300 rounded-lg p-10">
             <div className="flex flex-col items-center justify-center text-center">
-              {isSuccess ? (
+              {isCompleted(extraction) && isApplied ? (
                 <div className="flex flex-col items-center">
                   <div className="bg-green-100 rounded-full p-3 mb-4">
                     <CheckCircle className="h-10 w-10 text-green-600" />
                   </div>
                   <h3 className="text-lg font-medium mb-2">Document Processed!</h3>
                   <p className="text-neutral-500 mb-4">{file?.name}</p>
-                  <Button 
-                    variant="outline" 
-                    onClick={() => {
-                      setFile(null);
-                      setIsSuccess(false);
-                    }}
-                  >
+                  {extraction?.form && (
+                    <p className="mb-2 text-sm text-neutral-600">Read as {extraction.form.formName}</p>
+                  )}
+                  {missingFields.length > 0 && (
+                    <p className="mb-2 flex items-center gap-1 text-sm text-amber-700">
+                      <PencilLine className="h-4 w-4" />
+                      Not found, enter by hand: {missingFields.map(field => EXTRACTED_FIELD_LABELS[field]).join(", ")}
+                    </p>
+                  )}
+                  {reviewFields.length > 0 && (
+                    <p className="mb-4 flex items-center gap-1 text-sm text-amber-700">
+                      <AlertTriangle className="h-4 w-4" />
+                      Check before saving: {reviewFields.map(field => EXTRACTED_FIELD_LABELS[field]).join(", ")}
+                    </p>
+                  )}
+                  <Button variant="outline" onClick={reset}>
                     Upload another document
                   </Button>
                 </div>
+              ) : isCompleted(extraction) && extraction ? (
+                <div className="flex flex-col items-center">
+                  <div className="bg-green-100 rounded-full p-3 mb-4">
+                    <CheckCircle className="h-10 w-10 text-green-600" />
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">Offer Details Ready</h3>
+                  <p className="text-neutral-500 mb-4">
+                    The retry of {file?.name} succeeded.
+                  </p>
+                  <div className="flex gap-3">
+                    <Button variant="outline" onClick={reset}>
+                      Upload another document
+                    </Button>
+                    <Button onClick={() => applyExtraction(extraction)}>
+                      Review offer
+                    </Button>
+                  </div>
+                </div>
+              ) : isReadingScan(extraction) ? (
+                <div className="flex flex-col items-center">
+                  <div className="bg-neutral-100 rounded-full p-3 mb-4">
+                    <Loader2 className="h-10 w-10 text-primary animate-spin" />
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">Reading Scanned Document</h3>
+                  <p className="text-neutral-500 mb-4">{file?.name}</p>
+                  <p className="text-sm text-neutral-600 mb-4">
+                    Scanned pages are read with OCR in the background. The offer details will appear here when they're ready.
+                  </p>
+                  <Button variant="outline" onClick={reset}>
+                    Upload another document
+                  </Button>
+                </div>
+              ) : extraction ? (
+                <div className="flex flex-col items-center">
+                  <div className="bg-amber-100 rounded-full p-3 mb-4">
+                    <PencilLine className="h-10 w-10 text-amber-600" />
+                  </div>
+                  <h3 className="text-lg font-medium mb-2">Needs Manual Entry</h3>
+                  <p className="text-neutral-500 mb-2">{file?.name}</p>
+                  <p className="text-sm text-neutral-600 mb-1">
+                    {extraction.failureReason ? EXTRACTION_FAILURE_MESSAGES[extraction.failureReason] : "Offer details couldn't be extracted."}
+                    {" "}You haven't been charged for this document.
+                  </p>
+                  {extraction.status === "queued" && (
+                    <p className="flex items-center gap-1 text-sm text-neutral-500 mb-4">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      We'll keep trying in the background
+                      {extraction.nextAttemptAt && ` (next attempt at ${new Date(extraction.nextAttemptAt).toLocaleTimeString()})`}.
+                    </p>
+                  )}
+                  <div className="mt-3 flex gap-3">
+                    {extraction.status === "failed" && (
+                      <Button
+                        variant="outline"
+                        onClick={() => retryMutation.mutate(extraction.id)}
+                        disabled={retryMutation.isPending}
+                      >
+                        {retryMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Retrying...
+                          </>
+                        ) : (
+                          <>Try again</>
+                        )}
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={reset}>
+                      Upload another document
+                    </Button>
+                    {onManualEntry && (
+                      <Button onClick={onManualEntry}>
+                        Enter details manually
+                      </Button>
+                    )}
+                  </div>
+                </div>
               ) : (
                 <>
                   <div className="bg-neutral-100 rounded-full p-3 mb-4">
@@ -153,7 +355,7 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
                       <div className="flex gap-3">
                         <Button 
                           variant="outline" 
-                          onClick={() => setFile(null)}
+                          onClick={reset}
                           disabled={isUploading}
                         >
                           Change file
@@ -188,7 +390,7 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
                       <Input
                         id="document-upload"
                         type="file"
-                        accept=".pdf,.txt,.doc,.docx"
+                        accept=".pdf,.txt,.doc,.docx,.png,.jpg,.jpeg"
                         className="hidden"
                         onChange={handleFileChange}
                       />
@@ -203,14 +405,16 @@ export default function FileUpload({ listingId, onExtracted }: FileUploadProps)
             <h4 className="font-medium mb-2">What happens next?</h4>
             <ul className="list-disc list-inside text-sm space-y-1 text-neutral-600">
               <li>Our AI will extract key information including price, contingencies, and closing timeline</li>
+              <li>Scanned documents and photos are read with OCR</li>
               <li>You'll have a chance to review and edit the extracted data</li>
-              <li>Each document processing counts as one usage event for billing purposes</li>
+              <li>If details can't be extracted you can enter them by hand, and we'll retry in the background when the service is unavailable</li>
+              <li>Each document that offer details are extracted from counts as one usage event for billing purposes. Failed extractions aren't charged</li>
             </ul>
           </div>
         </div>
       </CardContent>
       <CardFooter className="text-sm text-neutral-500 justify-between border-t pt-4">
-        <div>Supported formats: PDF, DOC, DOCX, TXT</div>
+        <div>Supported formats: PDF, DOC, DOCX, TXT, PNG, JPEG</div>
         <div>Max file size: 10MB</div>
       </CardFooter>
     </Card>
@@ -39,7 +39,7 @@ export default function ListingForm({ form }: ListingFormProps) {
               )}
             />
             
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <FormField
                 control={form.control}
                 name="city"
@@ -54,6 +54,21 @@ export default function ListingForm({ form }: ListingFormProps) {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="county"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>County</FormLabel>
+                    <FormControl>
+                      <Input placeholder="San Francisco" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Sets local transfer taxes</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="state"
@@ -150,6 +165,56 @@ export default function ListingForm({ form }: ListingFormProps) {
               />
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="annualPropertyTax"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Annual Property Tax</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-500">$</span>
+                        <Input 
+                          type="number" 
+                          placeholder="0.00"
+                          className="pl-7"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber || undefined)}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormDescription>Prorated to the closing date on the seller net sheet</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={form.control}
+                name="hoaMonthlyDues"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>HOA Dues (Monthly)</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-500">$</span>
+                        <Input 
+                          type="number" 
+                          placeholder="0.00"
+                          className="pl-7"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber || undefined)}
+                        />
+                      </div>
+                    </FormControl>
+                    <FormDescription>Leave empty if the property has no HOA</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <FormField
                 control={form.control}
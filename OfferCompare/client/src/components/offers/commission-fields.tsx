@@ -0,0 +1,180 @@
+import { UseFormReturn, useFieldArray } from "react-hook-form";
+import {
+  FormField,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { DollarSign, Percent, Plus, X } from "lucide-react";
+import {
+  COMMISSION_EXTRA_KINDS,
+  COMMISSION_EXTRA_LABELS,
+  CommissionBasis,
+  calculateCommission,
+} from "@shared/commission";
+
+interface CommissionFieldsProps {
+  form: UseFormReturn<any>;
+}
+
+interface CommissionAmountFieldProps {
+  form: UseFormReturn<any>;
+  name: string; // path of a CommissionTerm in the form values
+  label?: string;
+}
+
+// Amount input with a $/% switch that keeps the basis next to the value
+function CommissionAmountField({ form, name, label }: CommissionAmountFieldProps) {
+  const basis: CommissionBasis = form.watch(`${name}.basis`) || "percent";
+
+  return (
+    <FormField
+      control={form.control}
+      name={`${name}.amount`}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex items-center justify-between mb-2">
+            {label ? <FormLabel>{label}</FormLabel> : <span />}
+
+            <div className="flex items-center space-x-1 border rounded-md p-1">
+              <Button
+                variant={basis === "flat" ? "default" : "ghost"}
+                size="sm"
+                type="button"
+                className="flex items-center gap-1 h-6 px-2"
+                onClick={() => form.setValue(`${name}.basis`, "flat")}
+              >
+                <DollarSign className="h-3 w-3" />
+              </Button>
+              <Button
+                variant={basis === "percent" ? "default" : "ghost"}
+                size="sm"
+                type="button"
+                className="flex items-center gap-1 h-6 px-2"
+                onClick={() => form.setValue(`${name}.basis`, "percent")}
+              >
+                <Percent className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+          <FormControl>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-500">
+                {basis === "flat" ? "$" : "%"}
+              </span>
+              <Input
+                type="number"
+                placeholder={basis === "flat" ? "0.00" : "0.0"}
+                className="pl-7"
+                {...field}
+                value={field.value ?? ""}
+                onChange={(e) => field.onChange(e.target.valueAsNumber || 0)}
+              />
+            </div>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+export default function CommissionFields({ form }: CommissionFieldsProps) {
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "commission.extras",
+  });
+
+  const price = Number(form.watch("price")) || 0;
+  const breakdown = calculateCommission(form.watch("commission"), price);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <CommissionAmountField form={form} name="commission.listingSide" label="Listing Agent Commission" />
+        <CommissionAmountField form={form} name="commission.buyerSide" label="Buyer Agent Commission" />
+      </div>
+
+      {fields.map((extra, index) => (
+        <div key={extra.id} className="grid grid-cols-1 md:grid-cols-[160px_1fr_1fr_auto] gap-4 items-end">
+          <FormField
+            control={form.control}
+            name={`commission.extras.${index}.kind`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COMMISSION_EXTRA_KINDS.map(kind => (
+                      <SelectItem key={kind} value={kind}>
+                        {COMMISSION_EXTRA_LABELS[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name={`commission.extras.${index}.description`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Selling bonus" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <CommissionAmountField form={form} name={`commission.extras.${index}`} />
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="mb-1"
+            onClick={() => remove(index)}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ kind: "bonus", description: "", basis: "flat", amount: 0 })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Bonus or Referral Fee
+        </Button>
+
+        <p className="text-sm text-neutral-500">
+          Total paid by seller: ${breakdown.total.toLocaleString()}
+        </p>
+      </div>
+    </div>
+  );
+}
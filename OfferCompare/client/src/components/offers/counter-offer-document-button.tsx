@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileDown, Loader2 } from "lucide-react";
+import { Offer } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CounterOfferTemplateSummary, OfferDocumentVersion } from "@/lib/types";
+
+interface CounterOfferDocumentButtonProps {
+  offer: Offer; // a counter offer
+}
+
+// Three days from today, as a date input value
+function defaultRespondBy(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 3);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Generates the counter offer as a PDF to send to the buyer's agent, and
+ * downloads it. The PDF is also kept with the counter's documents.
+ */
+export default function CounterOfferDocumentButton({ offer }: CounterOfferDocumentButtonProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [templateId, setTemplateId] = useState("counter-offer");
+  const [respondBy, setRespondBy] = useState(defaultRespondBy);
+
+  const { data: templates = [] } = useQuery<CounterOfferTemplateSummary[]>({
+    queryKey: ["/api/counter-offer-templates"],
+    enabled: open,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/offers/${offer.id}/counter-document`, { templateId, respondBy });
+      return await res.json() as OfferDocumentVersion;
+    },
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offer.id}/documents`] });
+      setOpen(false);
+      toast({
+        title: "Counter offer generated",
+        description: `${document.fileName} has been added to the offer's documents`,
+      });
+      // Served as an attachment, so this downloads without leaving the page
+      window.location.assign(`${document.url}?download=1`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error generating counter offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = templates.find(template => template.id === templateId);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileDown className="h-4 w-4 mr-2" />
+          Counter Offer PDF
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Generate counter offer</DialogTitle>
+          <DialogDescription>
+            Version {offer.versionNumber} to {offer.buyerName}, as a PDF to send to the buyer's agent.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected?.description && <p className="text-xs text-neutral-500">{selected.description}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="counter-respond-by">Buyer must respond by</Label>
+            <Input
+              id="counter-respond-by"
+              type="date"
+              value={respondBy}
+              onChange={(e) => setRespondBy(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending || !respondBy}>
+            {generateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Generate PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
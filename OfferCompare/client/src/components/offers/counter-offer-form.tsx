@@ -11,7 +11,6 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
 import { 
   Card, 
@@ -30,10 +29,15 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Offer } from "@shared/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Listing, Offer } from "@shared/schema";
+import { DEFAULT_COMMISSION_TERMS } from "@shared/commission";
+import { NEGOTIATION_SIDES, NEGOTIATION_SIDE_LABELS, counterSide } from "@shared/negotiation";
+import { calculateNetSheet, netSheetInputFor } from "@shared/net-sheet";
 import { BUYER_TYPES, CONTINGENCY_TYPES } from "@/lib/types";
 import { ArrowLeftRight, ExternalLink, Save, FileText, RotateCcw } from "lucide-react";
 import OfferDiff from "./offer-diff";
+import CommissionFields from "./commission-fields";
 
 interface CounterOfferFormProps {
   form: UseFormReturn<any>;
@@ -49,41 +53,29 @@ export default function CounterOfferForm({
   onTogglePreview
 }: CounterOfferFormProps) {
   const [activeTab, setActiveTab] = useState<string>("form");
-  const [commissionType, setCommissionType] = useState<"dollar" | "percent">("dollar");
+
+  // Listing costs (loan payoff, taxes, location) for the net proceeds preview
+  const { data: listing } = useQuery<Listing>({
+    queryKey: [`/api/listings/${originalOffer.listingId}`],
+  });
 
   // Set default form values based on the original offer
   useEffect(() => {
     if (originalOffer) {
-      // Calculate next version number
-      const nextVersionNumber = (originalOffer.versionNumber || 0) + 1;
-      
-      // Get the offer's commission value
-      let commission = originalOffer.agentCommission;
-      let commissionType = "dollar";
-      
-      // Convert commission to percentage if it's less than 20 (likely a percentage)
-      if (commission && commission > 0 && commission < 20) {
-        commission = commission;
-        commissionType = "percent";
-      }
-      
       // Set form values from the original offer, allowing for modifications
       form.reset({
         listingId: originalOffer.listingId,
-        parentOfferId: originalOffer.id,
-        isCounterOffer: true,
-        versionNumber: nextVersionNumber,
+        // The server numbers the round; the other side usually writes the counter
+        authoredBy: counterSide(originalOffer),
         buyerName: originalOffer.buyerName,
         buyerType: originalOffer.buyerType,
         price: originalOffer.price,
-        agentCommission: commission,
-        commissionType: commissionType,
+        commission: originalOffer.commission ?? DEFAULT_COMMISSION_TERMS,
+        sellerConcessions: originalOffer.sellerConcessions ?? undefined,
         closingTimelineDays: originalOffer.closingTimelineDays,
         contingencies: originalOffer.contingencies,
         notes: originalOffer.notes
       });
-      
-      setCommissionType(commissionType as any);
     }
   }, [originalOffer, form]);
 
@@ -91,32 +83,25 @@ export default function CounterOfferForm({
   const getPreviewCounterOffer = (): Offer => {
     const formValues = form.getValues();
     
-    // Convert commission to dollars if it's a percentage
-    let agentCommission = Number(formValues.agentCommission || 0);
-    if (formValues.commissionType === "percent") {
-      agentCommission = (Number(formValues.price) * agentCommission) / 100;
-    }
-    
-    // Calculate net proceeds based on the listing's loan balance
-    const price = Number(formValues.price);
-    const netProceeds = price - agentCommission;
+    // Net proceeds come from the same net sheet the server stores with the offer
+    const netSheet = listing ? calculateNetSheet(netSheetInputFor(formValues, listing)) : null;
     
     // Simple risk score calculation
     const contingencies = formValues.contingencies || [];
     const riskScore = Math.max(1, 10 - contingencies.length * 2);
     
-    // Simple overall score calculation
-    const overallScore = Math.round((price / 1000000 * 40) + (riskScore * 5) + (60 - Number(formValues.closingTimelineDays) / 2));
-    
     // Create the counter offer object
     return {
       ...formValues,
       id: originalOffer.id + 1000, // Just for preview, not the real ID
-      netProceeds,
+      parentOfferId: originalOffer.id,
+      netProceeds: netSheet ? String(netSheet.netProceeds) : originalOffer.netProceeds,
+      netSheet,
       riskScore,
-      overallScore,
-      createdAt: new Date(),
-      agentCommission
+      // Scores are relative to the competing offers, so they're only known once submitted
+      overallScore: null,
+      scoreBreakdown: null,
+      createdAt: new Date()
     } as Offer;
   };
 
@@ -161,6 +146,34 @@ export default function CounterOfferForm({
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="authoredBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Countered By</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select who is countering" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {NEGOTIATION_SIDES.map((side) => (
+                          <SelectItem key={side} value={side}>
+                            {NEGOTIATION_SIDE_LABELS[side]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      Version {originalOffer.versionNumber} was written by the {originalOffer.authoredBy}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={form.control}
                 name="buyerName"
@@ -234,61 +247,7 @@ export default function CounterOfferForm({
                 )}
               />
               
-              <div className="space-y-2">
-                <FormLabel>Agent Commission</FormLabel>
-                <div className="grid grid-cols-4 gap-4">
-                  <div className="col-span-1">
-                    <RadioGroup value={commissionType} onValueChange={(v) => {
-                      setCommissionType(v as "dollar" | "percent");
-                      form.setValue("commissionType", v as "dollar" | "percent");
-                    }} className="flex justify-between">
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="dollar" id="dollar" />
-                        <Label htmlFor="dollar">$</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="percent" id="percent" />
-                        <Label htmlFor="percent">%</Label>
-                      </div>
-                    </RadioGroup>
-                  </div>
-                  
-                  <div className="col-span-3">
-                    <FormField
-                      control={form.control}
-                      name="agentCommission"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormControl>
-                            <div className="relative">
-                              <span className="absolute left-3 top-2.5">
-                                {commissionType === "dollar" ? "$" : ""}
-                              </span>
-                              <Input 
-                                type="number" 
-                                className={commissionType === "dollar" ? "pl-7" : "pl-3"}
-                                placeholder={commissionType === "dollar" ? "15000" : "3"} 
-                                {...field}
-                                onChange={e => field.onChange(Number(e.target.value))}
-                              />
-                              {commissionType === "percent" && (
-                                <span className="absolute right-3 top-2.5">%</span>
-                              )}
-                            </div>
-                          </FormControl>
-                          <FormDescription>
-                            {commissionType === "dollar" 
-                              ? "The total commission amount in dollars"
-                              : "The commission percentage of the offer price"
-                            }
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                </div>
-              </div>
+              <CommissionFields form={form} />
             </CardContent>
             
             <CardHeader>
@@ -0,0 +1,73 @@
+import { useMutation } from "@tanstack/react-query";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Offer } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeleteOfferButtonProps {
+  offer: Offer;
+  listingId: number;
+  onDeleted?: () => void;
+}
+
+export default function DeleteOfferButton({ offer, listingId, onDeleted }: DeleteOfferButtonProps) {
+  const { toast } = useToast();
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/offers/${offer.id}`);
+    },
+    onSuccess: () => {
+      // The remaining offers are rescored without it
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/insights`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offer.id}`] });
+      toast({
+        title: "Offer deleted",
+        description: `The offer from ${offer.buyerName} has been removed`,
+      });
+      onDeleted?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-red-600" disabled={deleteMutation.isPending}>
+          Delete
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete this offer?</AlertDialogTitle>
+          <AlertDialogDescription>
+            The offer from {offer.buyerName} will no longer be compared or scored. It stays in the
+            negotiation history of any counter offers.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => deleteMutation.mutate()}>Delete</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ExtractionDocumentResponse } from "@/lib/types";
+import { FieldCitation } from "@shared/extraction";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+interface DocumentViewerProps {
+  extractionId: number;
+  // Passage to show, e.g. the source of the field being reviewed
+  citation: FieldCitation | null;
+}
+
+/**
+ * The uploaded offer document, as the text extraction read it, with the
+ * cited passage highlighted. PDFs and images can also be shown as uploaded.
+ */
+export default function DocumentViewer({ extractionId, citation }: DocumentViewerProps) {
+  const [view, setView] = useState<"text" | "original">("text");
+  const highlightRef = useRef<HTMLElement | null>(null);
+  const pageRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  const { data: document, isLoading, error } = useQuery<ExtractionDocumentResponse>({
+    queryKey: [`/api/extractions/${extractionId}/document`],
+  });
+
+  const hasOriginal = document?.format === "pdf" || document?.format === "image";
+
+  // Jump to the passage whenever another one is cited
+  useEffect(() => {
+    if (!citation || view !== "text") {
+      return;
+    }
+    const target = highlightRef.current ?? pageRefs.current[citation.pageNumber];
+    target?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [citation, view, document]);
+
+  if (isLoading) {
+    return (
+      <Card className="flex h-full items-center justify-center p-6 text-neutral-500">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading document...
+      </Card>
+    );
+  }
+
+  if (error || !document) {
+    return (
+      <Card className="flex h-full items-center justify-center p-6 text-neutral-500">
+        The document couldn't be loaded.
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="flex h-full flex-col overflow-hidden">
+      <div className="flex items-center justify-between border-b border-neutral-200 bg-neutral-50 px-4 py-3">
+        <h3 className="truncate text-sm font-medium">{document.fileName}</h3>
+        {hasOriginal && (
+          <Tabs value={view} onValueChange={(value) => setView(value as "text" | "original")}>
+            <TabsList>
+              <TabsTrigger value="text">Text</TabsTrigger>
+              <TabsTrigger value="original">Original</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        )}
+      </div>
+
+      {citation && citation.start == null && (
+        <p className="flex items-center gap-1 border-b border-amber-200 bg-amber-50 px-4 py-2 text-xs text-amber-700">
+          <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+          “{citation.quote}” wasn't found on page {citation.pageNumber}
+        </p>
+      )}
+
+      {view === "original" && document.format === "pdf" ? (
+        // Changing the key reloads the viewer on the cited page
+        <iframe
+          key={citation?.pageNumber ?? 1}
+          src={`${document.fileUrl}#page=${citation?.pageNumber ?? 1}`}
+          title={document.fileName}
+          className="flex-1 border-0"
+        />
+      ) : view === "original" && document.format === "image" ? (
+        <div className="flex-1 overflow-auto p-4">
+          <img src={document.fileUrl} alt={document.fileName} className="w-full" />
+        </div>
+      ) : (
+        <div className="flex-1 space-y-6 overflow-y-auto p-4">
+          {document.pages.map(page => {
+            const isCited = citation?.pageNumber === page.pageNumber && citation.start != null && citation.end != null;
+            return (
+              <div key={page.pageNumber} ref={element => { pageRefs.current[page.pageNumber] = element; }}>
+                {document.pages.length > 1 && (
+                  <p className="mb-2 text-xs font-medium uppercase tracking-wide text-neutral-400">
+                    Page {page.pageNumber}
+                    {page.source === "ocr" && page.confidence != null && ` · scanned, ${Math.round(page.confidence * 100)}% OCR confidence`}
+                  </p>
+                )}
+                <pre className="whitespace-pre-wrap break-words font-sans text-sm text-neutral-700">
+                  {isCited ? (
+                    <>
+                      {page.text.slice(0, citation.start!)}
+                      <mark ref={highlightRef} className="rounded bg-yellow-200 px-0.5">
+                        {page.text.slice(citation.start!, citation.end!)}
+                      </mark>
+                      {page.text.slice(citation.end!)}
+                    </>
+                  ) : (
+                    page.text
+                  )}
+                </pre>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+import { AlertTriangle, FileText } from "lucide-react";
+import { FieldEvidence, isLowConfidence } from "@shared/extraction";
+
+interface FieldEvidenceNoteProps {
+  evidence?: FieldEvidence;
+}
+
+// Input border for a field extracted with low confidence
+export const LOW_CONFIDENCE_INPUT_CLASSES = "border-amber-400 bg-amber-50 focus-visible:ring-amber-400";
+
+/**
+ * Where an extracted value came from, shown under its form field. Low
+ * confidence values are highlighted so they get checked before saving.
+ */
+export default function FieldEvidenceNote({ evidence }: FieldEvidenceNoteProps) {
+  if (!evidence) {
+    return null;
+  }
+
+  const citation = evidence.citation;
+  const source = citation
+    ? `Page ${citation.pageNumber}: “${citation.quote}”${citation.start == null ? " (not found on the page)" : ""}`
+    : "Not found in the document";
+
+  if (isLowConfidence(evidence)) {
+    return (
+      <p className="flex items-start gap-1 text-xs text-amber-700">
+        <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+        <span>
+          Check this value ({Math.round(evidence.confidence * 100)}% confidence). {source}
+        </span>
+      </p>
+    );
+  }
+
+  return (
+    <p className="flex items-start gap-1 text-xs text-neutral-500">
+      <FileText className="mt-0.5 h-3 w-3 flex-shrink-0" />
+      <span>{source}</span>
+    </p>
+  );
+}
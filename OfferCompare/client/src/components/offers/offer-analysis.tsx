@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
-import { Offer } from "@shared/schema";
+import { Offer, ScoreBreakdown, ScoreCategory, SCORE_CATEGORIES, SCORE_CATEGORY_LABELS } from "@shared/schema";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from "recharts";
 import { AlertCircle, TrendingUp, DollarSign, Handshake } from "lucide-react";
 
@@ -14,8 +14,23 @@ interface InsightsData {
   riskAssessment: string;
   netProceedsComparison: string;
   negotiationOpportunities: string;
+  scores: {
+    offerId: number;
+    buyerName: string;
+    overallScore: number | null;
+    scoreBreakdown: ScoreBreakdown | null;
+  }[];
 }
 
+// Short labels for the per-category score bars
+const CATEGORY_SHORT_LABELS: Record<ScoreCategory, string> = {
+  offerPrice: "Price",
+  netProceeds: "Net",
+  closingTimeline: "Timeline",
+  contingencies: "Cont.",
+  buyerQualification: "Buyer",
+};
+
 export default function OfferAnalysis({ listingId, offers }: OfferAnalysisProps) {
   // Fetch insights data
   const { data: insights, isLoading } = useQuery<InsightsData>({
@@ -38,8 +53,8 @@ export default function OfferAnalysis({ listingId, offers }: OfferAnalysisProps)
       price: Number(offer.price),
       netProceeds: Number(offer.netProceeds),
       score: offer.overallScore,
-      risk: offer.riskScore * 10, // Scale to match other metrics
-      timeline: 100 - offer.closingTimelineDays, // Inverse (shorter is better)
+      risk: (offer.riskScore ?? 0) * 10, // Scale to match other metrics
+      timeline: 100 - (offer.closingTimelineDays ?? 0), // Inverse (shorter is better)
     };
   });
 
@@ -227,49 +242,26 @@ export default function OfferAnalysis({ listingId, offers }: OfferAnalysisProps)
                     </div>
                     
                     <div className="mt-2 grid grid-cols-5 gap-2 text-xs">
-                      <div className="text-center">
-                        <div 
-                          className="mb-1 h-1.5 rounded-full bg-primary mx-auto" 
-                          style={{ 
-                            width: `${90 * Number(offer.price) / Math.max(...offers.map(o => Number(o.price)))}%` 
-                          }}
-                        ></div>
-                        <span>Price</span>
-                      </div>
-                      <div className="text-center">
-                        <div 
-                          className="mb-1 h-1.5 rounded-full bg-primary mx-auto" 
-                          style={{ 
-                            width: `${90 * Number(offer.netProceeds) / Math.max(...offers.map(o => Number(o.netProceeds)))}%` 
-                          }}
-                        ></div>
-                        <span>Net</span>
-                      </div>
-                      <div className="text-center">
-                        <div 
-                          className="mb-1 h-1.5 rounded-full bg-primary mx-auto" 
-                          style={{ 
-                            width: `${90 * (Math.min(...offers.map(o => o.closingTimelineDays)) / offer.closingTimelineDays)}%` 
-                          }}
-                        ></div>
-                        <span>Timeline</span>
-                      </div>
-                      <div className="text-center">
-                        <div 
-                          className="mb-1 h-1.5 rounded-full bg-primary mx-auto" 
-                          style={{ 
-                            width: `${90 * (offer.riskScore / 10)}%` 
-                          }}
-                        ></div>
-                        <span>Cont.</span>
-                      </div>
-                      <div className="text-center">
-                        <div 
-                          className="mb-1 h-1.5 rounded-full bg-primary mx-auto" 
-                          style={{ width: "75%" }}
-                        ></div>
-                        <span>Buyer</span>
-                      </div>
+                      {SCORE_CATEGORIES.map(category => {
+                        const categoryScore = offer.scoreBreakdown?.[category];
+                        const normalizedScore = categoryScore?.normalizedScore ?? 0;
+                        
+                        return (
+                          <div
+                            key={category}
+                            className="text-center"
+                            title={categoryScore
+                              ? `${SCORE_CATEGORY_LABELS[category]}: ${Math.round(normalizedScore * 100)}/100 (+${categoryScore.weightedContribution} pts)`
+                              : `${SCORE_CATEGORY_LABELS[category]}: not scored yet`}
+                          >
+                            <div 
+                              className="mb-1 h-1.5 rounded-full bg-primary mx-auto" 
+                              style={{ width: `${90 * normalizedScore}%` }}
+                            ></div>
+                            <span>{CATEGORY_SHORT_LABELS[category]}</span>
+                          </div>
+                        );
+                      })}
                     </div>
                   </div>
                 );
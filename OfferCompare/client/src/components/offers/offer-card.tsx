@@ -8,19 +8,60 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Offer } from "@shared/schema";
+import { OFFER_STATUS_LABELS, OfferStatusAction, canTransitionOffer, isOfferStatus } from "@shared/offer-status";
 import { AlertCircle, CheckCircle, AlertTriangle } from "lucide-react";
 import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import DeleteOfferButton from "./delete-offer-button";
 
 interface OfferCardProps {
   offer: Offer;
   listingId: number;
 }
 
+// Badge colors for each offer status
+export const STATUS_BADGE_CLASSES: Record<string, string> = {
+  pending: "bg-blue-100 text-blue-800",
+  countered: "bg-purple-100 text-purple-800",
+  accepted: "bg-green-100 text-green-800",
+  backup: "bg-yellow-100 text-yellow-800",
+  rejected: "bg-red-100 text-red-800",
+  withdrawn: "bg-neutral-100 text-neutral-800",
+  expired: "bg-neutral-100 text-neutral-800",
+};
+
 export default function OfferCard({ offer, listingId }: OfferCardProps) {
+  const { toast } = useToast();
+  
+  const statusMutation = useMutation({
+    mutationFn: async (action: OfferStatusAction) => {
+      const res = await apiRequest("POST", `/api/offers/${offer.id}/${action}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Accepting an offer also changes the listing and the competing offers
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/listings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const statusLabel = isOfferStatus(offer.status) ? OFFER_STATUS_LABELS[offer.status] : offer.status;
+  
   // Calculate risk level based on risk score
+  const riskScore = offer.riskScore ?? 0;
   const riskLevel = 
-    offer.riskScore >= 8 ? "Low" :
-    offer.riskScore >= 5 ? "Medium" : "High";
+    riskScore >= 8 ? "Low" :
+    riskScore >= 5 ? "Medium" : "High";
   
   // Get color classes for risk badge
   const riskBadgeClasses = 
@@ -44,9 +85,6 @@ export default function OfferCard({ offer, listingId }: OfferCardProps) {
   const priceValue = Number(offer.price);
   const netProceedsValue = Number(offer.netProceeds);
   
-  // Calculate commission value for display
-  const agentCommissionValue = Number(offer.agentCommission) || 0;
-  
   return (
     <Card className="overflow-hidden hover:shadow-md transition-shadow">
       <CardContent className="p-0">
@@ -59,6 +97,9 @@ export default function OfferCard({ offer, listingId }: OfferCardProps) {
               <div className="ml-3">
                 <h3 className="font-medium">{offer.buyerName}</h3>
                 <p className="text-sm text-neutral-500">{offer.buyerType || "Buyer"}</p>
+                <Badge variant="outline" className={`mt-1 border-0 ${STATUS_BADGE_CLASSES[offer.status] ?? ""}`}>
+                  {statusLabel}
+                </Badge>
               </div>
             </div>
             <div className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${riskBadgeClasses}`}>
@@ -89,20 +130,24 @@ export default function OfferCard({ offer, listingId }: OfferCardProps) {
                           <p>Offer Price:</p>
                           <p className="text-right">${priceValue.toLocaleString()}</p>
                         </div>
-                        {agentCommissionValue > 0 && (
-                          <div className="grid grid-cols-2 gap-1">
-                            <p>Agent Commission:</p>
-                            <p className="text-right text-red-500">-${agentCommissionValue.toLocaleString()}</p>
+                        {offer.netSheet?.items.map((item, index) => (
+                          <div key={`${item.key}-${index}`} className="grid grid-cols-2 gap-1">
+                            <p>
+                              {item.label}:
+                              {item.note && <span className="block text-[10px] text-neutral-400">{item.note}</span>}
+                            </p>
+                            <p className="text-right text-red-500">-${item.amount.toLocaleString()}</p>
                           </div>
-                        )}
-                        <div className="grid grid-cols-2 gap-1">
-                          <p>Loan Balance:</p>
-                          <p className="text-right text-red-500">-${(priceValue - agentCommissionValue - netProceedsValue).toLocaleString()}</p>
-                        </div>
+                        ))}
                         <div className="grid grid-cols-2 gap-1 border-t pt-1 font-medium">
                           <p>Net Proceeds:</p>
                           <p className="text-right">${netProceedsValue.toLocaleString()}</p>
                         </div>
+                        {offer.netSheet?.rule && (
+                          <p className="text-[10px] text-neutral-400">
+                            Closing costs: {offer.netSheet.rule.name} rules (v{offer.netSheet.rule.version})
+                          </p>
+                        )}
                       </div>
                     </TooltipContent>
                   </Tooltip>
@@ -138,21 +183,51 @@ export default function OfferCard({ offer, listingId }: OfferCardProps) {
         </div>
         
         <div className="bg-neutral-50 p-3 flex gap-2 justify-between">
-          <Button variant="ghost" size="sm" asChild>
-            <Link href={`/listings/${listingId}/offers/${offer.id}`}>
-              View Details
-            </Link>
-          </Button>
           <div className="flex gap-2">
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              asChild
-            >
-              <Link href={`/listings/${listingId}/offers/${offer.id}/counter`}>
-                Counter Offer
+            <Button variant="ghost" size="sm" asChild>
+              <Link href={`/listings/${listingId}/offers/${offer.id}`}>
+                View Details
               </Link>
             </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link href={`/listings/${listingId}/offers/${offer.id}/edit`}>
+                Edit
+              </Link>
+            </Button>
+            <DeleteOfferButton offer={offer} listingId={listingId} />
+          </div>
+          <div className="flex gap-2">
+            {canTransitionOffer(offer.status, "accepted") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate("accept")}
+              >
+                Accept
+              </Button>
+            )}
+            {canTransitionOffer(offer.status, "rejected") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate("reject")}
+              >
+                Reject
+              </Button>
+            )}
+            {canTransitionOffer(offer.status, "countered") && (
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                asChild
+              >
+                <Link href={`/listings/${listingId}/offers/${offer.id}/counter`}>
+                  Counter Offer
+                </Link>
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
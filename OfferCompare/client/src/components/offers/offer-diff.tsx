@@ -1,9 +1,13 @@
 import React from "react";
 import { Offer } from "@shared/schema";
+import { CommissionTerm, calculateCommission, commissionAmount, formatCommissionTerm } from "@shared/commission";
 
 interface OfferDiffProps {
   originalOffer: Offer;
   newOffer: Offer;
+  // Column headings, e.g. "Version 1" and "Version 2" on the negotiation history
+  originalLabel?: string;
+  newLabel?: string;
 }
 
 // Helper function to format monetary values
@@ -12,13 +16,30 @@ const formatMoney = (value: string | number | null): string => {
   return '$' + Number(value).toLocaleString();
 };
 
+// Helper function to format a commission term with its dollar amount, e.g. "2.5% ($17,500)"
+const formatCommission = (term: CommissionTerm | undefined, price: string | number): string => {
+  if (!term) return 'None';
+  const dollars = commissionAmount(term, Number(price));
+  return term.basis === 'percent'
+    ? `${formatCommissionTerm(term)} (${formatMoney(dollars)})`
+    : formatCommissionTerm(term);
+};
+
+// Helper function to format bonuses and referral fees
+const formatExtras = (offer: Offer): string => {
+  const extras = calculateCommission(offer.commission, Number(offer.price)).charges
+    .filter(charge => charge.key === 'bonus' || charge.key === 'referralFee');
+  if (extras.length === 0) return 'None';
+  return extras.map(charge => `${charge.label} ${formatMoney(charge.amount)}`).join(', ');
+};
+
 // Helper function to format contingencies
 const formatContingencies = (contingencies: string[] | null): string => {
   if (!contingencies || contingencies.length === 0) return 'None';
   return contingencies.join(', ');
 };
 
-export default function OfferDiff({ originalOffer, newOffer }: OfferDiffProps) {
+export default function OfferDiff({ originalOffer, newOffer, originalLabel = 'Original Offer', newLabel = 'Counter Offer' }: OfferDiffProps) {
   // Define the fields we want to compare
   const fieldsToCompare = [
     { 
@@ -34,10 +55,28 @@ export default function OfferDiff({ originalOffer, newOffer }: OfferDiffProps) {
       changed: Number(originalOffer.netProceeds) !== Number(newOffer.netProceeds)
     },
     { 
-      label: 'Agent Commission', 
-      original: formatMoney(originalOffer.agentCommission), 
-      new: formatMoney(newOffer.agentCommission),
-      changed: Number(originalOffer.agentCommission) !== Number(newOffer.agentCommission)
+      label: 'Listing Agent Commission', 
+      original: formatCommission(originalOffer.commission?.listingSide, originalOffer.price), 
+      new: formatCommission(newOffer.commission?.listingSide, newOffer.price),
+      changed: formatCommission(originalOffer.commission?.listingSide, originalOffer.price) !== formatCommission(newOffer.commission?.listingSide, newOffer.price)
+    },
+    { 
+      label: 'Buyer Agent Commission', 
+      original: formatCommission(originalOffer.commission?.buyerSide, originalOffer.price), 
+      new: formatCommission(newOffer.commission?.buyerSide, newOffer.price),
+      changed: formatCommission(originalOffer.commission?.buyerSide, originalOffer.price) !== formatCommission(newOffer.commission?.buyerSide, newOffer.price)
+    },
+    { 
+      label: 'Bonuses & Referral Fees', 
+      original: formatExtras(originalOffer), 
+      new: formatExtras(newOffer),
+      changed: formatExtras(originalOffer) !== formatExtras(newOffer)
+    },
+    { 
+      label: 'Total Commission', 
+      original: formatMoney(calculateCommission(originalOffer.commission, Number(originalOffer.price)).total), 
+      new: formatMoney(calculateCommission(newOffer.commission, Number(newOffer.price)).total),
+      changed: calculateCommission(originalOffer.commission, Number(originalOffer.price)).total !== calculateCommission(newOffer.commission, Number(newOffer.price)).total
     },
     { 
       label: 'Closing Timeline', 
@@ -63,8 +102,8 @@ export default function OfferDiff({ originalOffer, newOffer }: OfferDiffProps) {
     <div className="space-y-6">
       <div className="grid grid-cols-3 gap-4 mb-2 font-medium text-neutral-500">
         <div>Field</div>
-        <div>Original Offer</div>
-        <div>Counter Offer</div>
+        <div>{originalLabel}</div>
+        <div>{newLabel}</div>
       </div>
       
       <div className="space-y-2">
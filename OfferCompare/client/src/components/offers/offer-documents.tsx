@@ -0,0 +1,323 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Loader2, Upload } from "lucide-react";
+import { Offer } from "@shared/schema";
+import {
+  COMBINED_FINANCING_LABELS,
+  CombinedFinancing,
+  DOCUMENT_KINDS,
+  DOCUMENT_KIND_LABELS,
+  DocumentKind,
+} from "@shared/documents";
+import {
+  EXTRACTED_FIELDS,
+  EXTRACTED_FIELD_LABELS,
+  EXTRACTION_FAILURE_MESSAGES,
+  EXTRACTION_STATUS_LABELS,
+  ExtractedField,
+  ExtractedOffer,
+  isExtractionPending,
+} from "@shared/extraction";
+import { formatCommissionTerm } from "@shared/commission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { OfferDocument, OfferDocumentsResponse } from "@/lib/types";
+
+// How often to check on contracts and addenda that are still being read
+const DOCUMENTS_POLL_INTERVAL_MS = 5 * 1000;
+
+interface OfferDocumentsProps {
+  offer: Offer;
+  listingId: number;
+}
+
+const formatMoney = (value: number): string => "$" + value.toLocaleString();
+
+function formatOfferValue(field: ExtractedField, value: ExtractedOffer[ExtractedField]): string {
+  if (field === "price") {
+    return formatMoney(value as number);
+  }
+  if (field === "closingTimelineDays") {
+    return `${value} days`;
+  }
+  if (field === "contingencies") {
+    return (value as string[]).join(", ") || "None";
+  }
+  if (field === "commission") {
+    const commission = value as NonNullable<ExtractedOffer["commission"]>;
+    return `${formatCommissionTerm(commission.listingSide)} listing side, ${formatCommissionTerm(commission.buyerSide)} buyer side`;
+  }
+  return String(value);
+}
+
+function formatFinancingValue(key: keyof CombinedFinancing, value: string | number): string {
+  if (key === "preApprovalExpiresOn") {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  }
+  return typeof value === "number" ? formatMoney(value) : value;
+}
+
+// What was read from a document, in a few words
+function documentSummary(document: OfferDocument): string | null {
+  if (document.extraction) {
+    const { status, failureReason } = document.extraction;
+    return status === "failed" && failureReason
+      ? EXTRACTION_FAILURE_MESSAGES[failureReason]
+      : EXTRACTION_STATUS_LABELS[status];
+  }
+  const terms = document.terms;
+  if (!terms) {
+    return null;
+  }
+  const found = [
+    terms.loanAmount != null && `approved for ${formatMoney(terms.loanAmount)}`,
+    terms.fundsAmount != null && `${formatMoney(terms.fundsAmount)} available`,
+    terms.lender,
+  ].filter(Boolean);
+  return found.length > 0 ? found.join(" · ") : "Nothing found";
+}
+
+/**
+ * The documents an offer came with, each with its earlier versions, and the
+ * terms read from all of them together. The combined terms can be copied
+ * onto the offer.
+ */
+export default function OfferDocuments({ offer, listingId }: OfferDocumentsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<DocumentKind>("addendum");
+  // Set while choosing the file for a new version of this document
+  const [replacing, setReplacing] = useState<OfferDocument | null>(null);
+  const documentsKey = [`/api/offers/${offer.id}/documents`];
+
+  const { data } = useQuery<OfferDocumentsResponse>({
+    queryKey: documentsKey,
+    refetchInterval: (query) =>
+      (query.state.data?.documents ?? []).some(document => document.extraction && isExtractionPending(document.extraction.status))
+        ? DOCUMENTS_POLL_INTERVAL_MS
+        : false,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async ({ file, replaces }: { file: File; replaces: OfferDocument | null }) => {
+      const formData = new FormData();
+      formData.append("document", file);
+      if (replaces) {
+        formData.append("replacesDocumentId", String(replaces.id));
+      } else {
+        formData.append("kind", kind);
+      }
+
+      const response = await fetch(`/api/offers/${offer.id}/documents`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Failed to upload document");
+      }
+      return await response.json() as OfferDocumentsResponse;
+    },
+    onSuccess: (response) => {
+      queryClient.setQueryData(documentsKey, response);
+      toast({
+        title: "Document added",
+        description: "The document has been attached to the offer",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (terms: Partial<ExtractedOffer>) => {
+      const res = await apiRequest("PATCH", `/api/offers/${offer.id}`, terms);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offer.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offer.id}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      toast({
+        title: "Offer updated",
+        description: "The offer now has the terms from its documents",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chooseFile = (replaces: OfferDocument | null) => {
+    setReplacing(replaces);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) {
+      uploadMutation.mutate({ file, replaces: replacing });
+    }
+  };
+
+  const documents = data?.documents ?? [];
+  const combined = data?.combined;
+  const sourceLabel = (documentId: number | undefined) => {
+    const source = documents.find(document => document.id === documentId);
+    return source ? `${DOCUMENT_KIND_LABELS[source.kind]} v${source.version}` : null;
+  };
+  const offerFields = combined
+    ? EXTRACTED_FIELDS.filter(field => combined.offer[field] != null)
+    : [];
+  const financingKeys = combined
+    ? (Object.keys(COMBINED_FINANCING_LABELS) as (keyof CombinedFinancing)[]).filter(key => combined.financing[key] != null)
+    : [];
+
+  const applyCombinedTerms = () => {
+    if (combined) {
+      applyMutation.mutate(Object.fromEntries(offerFields.map(field => [field, combined.offer[field]])));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Documents</CardTitle>
+        {!offer.deletedAt && (
+          <div className="flex items-center gap-2">
+            <Select value={kind} onValueChange={(value) => setKind(value as DocumentKind)}>
+              <SelectTrigger className="h-9 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DOCUMENT_KINDS.map(option => (
+                  <SelectItem key={option} value={option}>{DOCUMENT_KIND_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={() => chooseFile(null)} disabled={uploadMutation.isPending}>
+              {uploadMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Add Document
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="sr-only"
+              accept=".pdf,.txt,.doc,.docx,.png,.jpg,.jpeg"
+              onChange={handleFileChange}
+            />
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {documents.length === 0 ? (
+          <p className="text-sm text-neutral-500">
+            No documents yet. Add the contract, addenda, a pre-approval letter or proof of funds.
+          </p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {documents.map(document => {
+              const summary = documentSummary(document);
+              return (
+                <li key={document.id} className="flex items-start justify-between gap-4 py-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium uppercase tracking-wide text-neutral-400">
+                      {DOCUMENT_KIND_LABELS[document.kind]} · v{document.version}
+                    </p>
+                    <a
+                      href={document.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 truncate font-medium text-primary hover:underline"
+                    >
+                      <FileText className="h-4 w-4 flex-shrink-0" />
+                      {document.fileName}
+                    </a>
+                    {summary && <p className="text-xs text-neutral-500">{summary}</p>}
+                    {document.previousVersions.length > 0 && (
+                      <p className="text-xs text-neutral-500">
+                        Earlier versions:{" "}
+                        {document.previousVersions.map((version, index) => (
+                          <span key={version.id}>
+                            {index > 0 && ", "}
+                            <a href={version.url} target="_blank" rel="noopener noreferrer" className="underline">
+                              v{version.version}
+                            </a>
+                            {" "}({new Date(version.createdAt).toLocaleDateString()})
+                          </span>
+                        ))}
+                      </p>
+                    )}
+                  </div>
+                  {!offer.deletedAt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => chooseFile(document)}
+                      disabled={uploadMutation.isPending}
+                    >
+                      New Version
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {combined && (offerFields.length > 0 || financingKeys.length > 0) && (
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <h4 className="text-sm font-medium">From all documents</h4>
+              {!offer.deletedAt && offerFields.length > 0 && (
+                <Button variant="outline" size="sm" onClick={applyCombinedTerms} disabled={applyMutation.isPending}>
+                  {applyMutation.isPending ? "Updating..." : "Apply to Offer"}
+                </Button>
+              )}
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              {offerFields.map(field => (
+                <div key={field}>
+                  <dt className="text-neutral-500">{EXTRACTED_FIELD_LABELS[field]}</dt>
+                  <dd className="font-medium">{formatOfferValue(field, combined.offer[field])}</dd>
+                  <dd className="text-xs text-neutral-400">{sourceLabel(combined.sources[field])}</dd>
+                </div>
+              ))}
+              {financingKeys.map(key => (
+                <div key={key}>
+                  <dt className="text-neutral-500">{COMBINED_FINANCING_LABELS[key]}</dt>
+                  <dd className="font-medium">{formatFinancingValue(key, combined.financing[key]!)}</dd>
+                  <dd className="text-xs text-neutral-400">{sourceLabel(combined.sources[key])}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,18 +21,34 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { InsertOffer } from "@shared/schema";
-import { X, DollarSign, Percent } from "lucide-react";
+import { X } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { CONTINGENCY_TYPES } from "@/lib/types";
+import CommissionFields from "./commission-fields";
+import FieldEvidenceNote, { LOW_CONFIDENCE_INPUT_CLASSES } from "./field-evidence";
+import { ExtractedField, ExtractionEvidence, isLowConfidence } from "@shared/extraction";
+import { cn } from "@/lib/utils";
 
 interface OfferFormProps {
   form: UseFormReturn<any>;
+  // Confidence and source of values extracted from an uploaded document
+  evidence?: ExtractionEvidence;
+  // Called when the agent clicks into an extracted field, e.g. to show its source
+  onFieldFocus?: (field: ExtractedField) => void;
 }
 
-export default function OfferForm({ form }: OfferFormProps) {
-  const [commissionType, setCommissionType] = useState<"dollar" | "percent">("dollar");
+export default function OfferForm({ form, evidence, onFieldFocus }: OfferFormProps) {
   const [customContingency, setCustomContingency] = useState("");
   
+  // Evidence only applies until the agent changes the extracted value
+  const evidenceFor = (field: ExtractedField) =>
+    form.formState.dirtyFields[field] ? undefined : evidence?.[field];
+  const highlight = (field: ExtractedField) => {
+    const fieldEvidence = evidenceFor(field);
+    return fieldEvidence && isLowConfidence(fieldEvidence) ? LOW_CONFIDENCE_INPUT_CLASSES : "";
+  };
+  const focusHandler = (field: ExtractedField) => ({ onFocusCapture: () => onFieldFocus?.(field) });
+  
   // Initialize contingencies array if it doesn't exist
   useEffect(() => {
     if (!form.getValues("contingencies")) {
@@ -40,25 +56,6 @@ export default function OfferForm({ form }: OfferFormProps) {
     }
   }, [form]);
   
-  // Handle commission type change
-  const handleCommissionTypeChange = (type: "dollar" | "percent") => {
-    setCommissionType(type);
-    
-    // Convert current value to the new type
-    const currentPrice = Number(form.getValues("price")) || 0;
-    const currentCommission = Number(form.getValues("agentCommission")) || 0;
-    
-    if (type === "percent" && currentCommission > 0) {
-      // Convert dollar amount to percentage
-      const percentage = (currentCommission / currentPrice) * 100;
-      form.setValue("agentCommission", Math.round(percentage * 100) / 100); // Round to 2 decimal places
-    } else if (type === "dollar" && currentCommission > 0) {
-      // Convert percentage to dollar amount
-      const dollarAmount = (currentCommission / 100) * currentPrice;
-      form.setValue("agentCommission", Math.round(dollarAmount * 100) / 100); // Round to 2 decimal places
-    }
-  };
-  
   // Handle contingency checkbox change
   const handleContingencyChange = (contingency: string, checked: boolean) => {
     const currentContingencies = form.getValues("contingencies") || [];
@@ -108,11 +105,12 @@ export default function OfferForm({ form }: OfferFormProps) {
           control={form.control}
           name="buyerName"
           render={({ field }) => (
-            <FormItem>
+            <FormItem {...focusHandler("buyerName")}>
               <FormLabel>Buyer Name</FormLabel>
               <FormControl>
-                <Input placeholder="John Smith" {...field} />
+                <Input placeholder="John Smith" className={highlight("buyerName")} {...field} />
               </FormControl>
+              <FieldEvidenceNote evidence={evidenceFor("buyerName")} />
               <FormMessage />
             </FormItem>
           )}
@@ -122,14 +120,14 @@ export default function OfferForm({ form }: OfferFormProps) {
           control={form.control}
           name="buyerType"
           render={({ field }) => (
-            <FormItem>
+            <FormItem {...focusHandler("buyerType")}>
               <FormLabel>Buyer Type</FormLabel>
               <Select
                 onValueChange={field.onChange}
                 defaultValue={field.value}
               >
                 <FormControl>
-                  <SelectTrigger>
+                  <SelectTrigger className={highlight("buyerType")}>
                     <SelectValue placeholder="Select buyer type" />
                   </SelectTrigger>
                 </FormControl>
@@ -141,6 +139,7 @@ export default function OfferForm({ form }: OfferFormProps) {
                   <SelectItem value="other">Other</SelectItem>
                 </SelectContent>
               </Select>
+              <FieldEvidenceNote evidence={evidenceFor("buyerType")} />
               <FormDescription>
                 Helps assess buyer qualification and risk
               </FormDescription>
@@ -155,7 +154,7 @@ export default function OfferForm({ form }: OfferFormProps) {
           control={form.control}
           name="price"
           render={({ field }) => (
-            <FormItem>
+            <FormItem {...focusHandler("price")}>
               <FormLabel>Offer Price</FormLabel>
               <FormControl>
                 <div className="relative">
@@ -163,95 +162,75 @@ export default function OfferForm({ form }: OfferFormProps) {
                   <Input 
                     type="number" 
                     placeholder="0.00"
-                    className="pl-7"
+                    className={cn("pl-7", highlight("price"))}
                     {...field}
                     onChange={(e) => field.onChange(e.target.valueAsNumber)}
                   />
                 </div>
               </FormControl>
+              <FieldEvidenceNote evidence={evidenceFor("price")} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      
+      <div className="space-y-2" {...focusHandler("commission")}>
+        <CommissionFields form={form} />
+        <FieldEvidenceNote evidence={evidenceFor("commission")} />
+      </div>
+      
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <FormField
+          control={form.control}
+          name="closingTimelineDays"
+          render={({ field }) => (
+            <FormItem {...focusHandler("closingTimelineDays")}>
+              <FormLabel>Closing Timeline (days)</FormLabel>
+              <FormControl>
+                <Input 
+                  type="number" 
+                  placeholder="30" 
+                  className={highlight("closingTimelineDays")}
+                  {...field}
+                  onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                />
+              </FormControl>
+              <FieldEvidenceNote evidence={evidenceFor("closingTimelineDays")} />
               <FormMessage />
             </FormItem>
           )}
         />
         
-        <div>
-          <FormField
-            control={form.control}
-            name="agentCommission"
-            render={({ field }) => (
-              <FormItem>
-                <div className="flex items-center justify-between mb-2">
-                  <FormLabel>Agent Commission</FormLabel>
-                  
-                  <div className="flex items-center space-x-1 border rounded-md p-1">
-                    <Button
-                      variant={commissionType === "dollar" ? "default" : "ghost"}
-                      size="sm"
-                      type="button"
-                      className="flex items-center gap-1 h-6 px-2"
-                      onClick={() => handleCommissionTypeChange("dollar")}
-                    >
-                      <DollarSign className="h-3 w-3" />
-                      <span>$</span>
-                    </Button>
-                    <Button
-                      variant={commissionType === "percent" ? "default" : "ghost"}
-                      size="sm"
-                      type="button"
-                      className="flex items-center gap-1 h-6 px-2"
-                      onClick={() => handleCommissionTypeChange("percent")}
-                    >
-                      <Percent className="h-3 w-3" />
-                      <span>%</span>
-                    </Button>
-                  </div>
+        <FormField
+          control={form.control}
+          name="sellerConcessions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Seller Concessions</FormLabel>
+              <FormControl>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-500">$</span>
+                  <Input 
+                    type="number" 
+                    placeholder="0.00"
+                    className="pl-7"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber || undefined)}
+                  />
                 </div>
-                <FormControl>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-neutral-500">
-                      {commissionType === "dollar" ? "$" : "%"}
-                    </span>
-                    <Input 
-                      type="number" 
-                      placeholder={commissionType === "dollar" ? "0.00" : "0.0"}
-                      className="pl-7"
-                      {...field}
-                      onChange={(e) => field.onChange(e.target.valueAsNumber)}
-                    />
-                  </div>
-                </FormControl>
-                <FormDescription>
-                  {commissionType === "dollar" 
-                    ? "Enter dollar amount of commission" 
-                    : "Enter commission percentage (e.g., 6 for 6%)"}
-                </FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </div>
+              </FormControl>
+              <FormDescription>
+                Closing cost credits the buyer is asking the seller to pay
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
       </div>
       
-      <FormField
-        control={form.control}
-        name="closingTimelineDays"
-        render={({ field }) => (
-          <FormItem>
-            <FormLabel>Closing Timeline (days)</FormLabel>
-            <FormControl>
-              <Input 
-                type="number" 
-                placeholder="30" 
-                {...field}
-                onChange={(e) => field.onChange(e.target.valueAsNumber)}
-              />
-            </FormControl>
-            <FormMessage />
-          </FormItem>
-        )}
-      />
-      
-      <div className="space-y-4">
+      <div className="space-y-4" {...focusHandler("contingencies")}>
         <FormLabel>Contingencies</FormLabel>
         
         <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
@@ -297,6 +276,7 @@ export default function OfferForm({ form }: OfferFormProps) {
           </Button>
         </div>
         
+        <FieldEvidenceNote evidence={evidenceFor("contingencies")} />
         <FormDescription>
           Select all contingencies included in the offer. These affect the risk assessment.
         </FormDescription>
@@ -306,15 +286,16 @@ export default function OfferForm({ form }: OfferFormProps) {
         control={form.control}
         name="notes"
         render={({ field }) => (
-          <FormItem>
+          <FormItem {...focusHandler("notes")}>
             <FormLabel>Notes</FormLabel>
             <FormControl>
               <Textarea 
                 placeholder="Additional notes about the offer..."
-                className="min-h-[100px]"
+                className={cn("min-h-[100px]", highlight("notes"))}
                 {...field}
               />
             </FormControl>
+            <FieldEvidenceNote evidence={evidenceFor("notes")} />
             <FormMessage />
           </FormItem>
         )}
@@ -14,6 +14,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { AlertCircle, CheckCircle, HelpCircle } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import DeleteOfferButton from "./delete-offer-button";
 
 interface OfferTableProps {
   offers: Offer[];
@@ -181,8 +182,13 @@ export default function OfferTable({ offers, isLoading, listingId }: OfferTableP
                     </div>
                   </TableCell>
                   <TableCell className="whitespace-nowrap text-right text-sm font-medium">
-                    <Button variant="link" className="mr-2" size="sm">View</Button>
-                    <Button variant="link" size="sm">Edit</Button>
+                    <Button variant="link" className="mr-2" size="sm" asChild>
+                      <Link href={`/listings/${listingId}/offers/${offer.id}`}>View</Link>
+                    </Button>
+                    <Button variant="link" size="sm" asChild>
+                      <Link href={`/listings/${listingId}/offers/${offer.id}/edit`}>Edit</Link>
+                    </Button>
+                    <DeleteOfferButton offer={offer} listingId={listingId} />
                   </TableCell>
                 </TableRow>
               );
@@ -0,0 +1,215 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, Loader2, PencilLine, RotateCw, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ExtractionResponse } from "@/lib/types";
+import {
+  EXTRACTED_FIELD_LABELS,
+  EXTRACTION_FAILURE_MESSAGES,
+  EXTRACTION_STATUS_LABELS,
+  REQUIRED_EXTRACTED_FIELDS,
+  isExtractionPending,
+} from "@shared/extraction";
+
+// How often to check on documents that are still being read
+const QUEUE_POLL_INTERVAL_MS = 5 * 1000;
+
+interface ReviewQueueProps {
+  listingId: number;
+}
+
+// Required fields the document didn't state, which have to be filled in before confirming
+function missingFields(extraction: ExtractionResponse) {
+  return REQUIRED_EXTRACTED_FIELDS.filter(field => extraction.extractedData?.[field] == null);
+}
+
+/**
+ * Extracted offers waiting to be confirmed, e.g. from a batch upload. Offers
+ * with every required detail can be confirmed with one click; the rest are
+ * checked against the document on the review screen first.
+ */
+export default function ReviewQueue({ listingId }: ReviewQueueProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queueKey = [`/api/listings/${listingId}/extractions`];
+
+  const { data: extractions = [] } = useQuery<ExtractionResponse[]>({
+    queryKey: queueKey,
+    enabled: !!listingId,
+    refetchInterval: (query) =>
+      (query.state.data ?? []).some(extraction => isExtractionPending(extraction.status)) ? QUEUE_POLL_INTERVAL_MS : false,
+    staleTime: 0,
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/extractions/${id}/confirm`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queueKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/insights`] });
+      toast({
+        title: "Offer added",
+        description: "The offer has been added to the comparison",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't confirm offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/extractions/${id}/retry`);
+      return await res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queueKey }),
+    onError: (error: Error) => {
+      toast({
+        title: "Retry failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/extractions/${id}/dismiss`);
+      return await res.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queueKey }),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't dismiss document",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (extractions.length === 0) {
+    return null;
+  }
+
+  const pendingCount = extractions.filter(extraction => isExtractionPending(extraction.status)).length;
+
+  return (
+    <Card className="mb-6 overflow-hidden">
+      <div className="flex items-center justify-between border-b border-neutral-200 bg-neutral-50 px-6 py-4">
+        <div>
+          <h3 className="text-lg font-medium">Review Queue</h3>
+          <p className="text-sm text-neutral-500">Uploaded offers that haven't been added to the comparison yet</p>
+        </div>
+        {pendingCount > 0 && (
+          <span className="flex items-center gap-1 text-sm text-neutral-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading {pendingCount} {pendingCount === 1 ? "document" : "documents"}
+          </span>
+        )}
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Document</TableHead>
+            <TableHead>Buyer</TableHead>
+            <TableHead>Price</TableHead>
+            <TableHead>Closing</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {extractions.map(extraction => {
+            const offer = extraction.extractedData;
+            const missing = missingFields(extraction);
+            const isCompleted = extraction.status === "succeeded" || extraction.status === "partial";
+
+            return (
+              <TableRow key={extraction.id}>
+                <TableCell className="max-w-[200px] truncate font-medium">{extraction.fileName}</TableCell>
+                <TableCell>{offer?.buyerName ?? "—"}</TableCell>
+                <TableCell>{offer?.price != null ? `$${offer.price.toLocaleString()}` : "—"}</TableCell>
+                <TableCell>{offer?.closingTimelineDays != null ? `${offer.closingTimelineDays} days` : "—"}</TableCell>
+                <TableCell>
+                  <div className="text-sm">{EXTRACTION_STATUS_LABELS[extraction.status]}</div>
+                  {extraction.status === "failed" && extraction.failureReason && (
+                    <div className="text-xs text-neutral-500">{EXTRACTION_FAILURE_MESSAGES[extraction.failureReason]}</div>
+                  )}
+                  {isCompleted && missing.length > 0 && (
+                    <div className="text-xs text-amber-700">
+                      Missing: {missing.map(field => EXTRACTED_FIELD_LABELS[field]).join(", ")}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    {isCompleted && missing.length === 0 && (
+                      <Button
+                        size="sm"
+                        onClick={() => confirmMutation.mutate(extraction.id)}
+                        disabled={confirmMutation.isPending}
+                      >
+                        <Check className="mr-1 h-4 w-4" />
+                        Confirm
+                      </Button>
+                    )}
+                    {isCompleted && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/listings/${listingId}/extractions/${extraction.id}/review`)}
+                      >
+                        <PencilLine className="mr-1 h-4 w-4" />
+                        Review
+                      </Button>
+                    )}
+                    {extraction.status === "failed" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => retryMutation.mutate(extraction.id)}
+                        disabled={retryMutation.isPending}
+                      >
+                        <RotateCw className="mr-1 h-4 w-4" />
+                        Try again
+                      </Button>
+                    )}
+                    {!isExtractionPending(extraction.status) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => dismissMutation.mutate(extraction.id)}
+                        disabled={dismissMutation.isPending}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Dismiss
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+}
@@ -1,3 +1,14 @@
+import type {
+  ExtractedDocumentSummary,
+  ExtractedOffer,
+  ExtractionEvidence,
+  ExtractionFailureReason,
+  ExtractionStatus,
+  FieldCorrection,
+  FormTerms,
+} from "@shared/extraction";
+import type { CombinedOfferTerms, DocumentKind, SupportingDocumentTerms } from "@shared/documents";
+
 // Common types used across the application
 
 // US States for form dropdowns
@@ -85,7 +96,76 @@ export const CONTINGENCY_TYPES = [
 ];
 
 // Offer status types
-export type OfferStatus = "pending" | "accepted" | "rejected" | "withdrawn";
+export type { OfferStatus } from "@shared/offer-status";
+
+// Body of the document extraction endpoints
+export interface ExtractionResponse {
+  id: number;
+  status: ExtractionStatus;
+  failureReason: ExtractionFailureReason | null;
+  attempts: number;
+  nextAttemptAt: string | null;
+  fileName: string;
+  documentId: number;
+  documentUrl: string; // GET /api/documents/:id
+  extractor: string | null;
+  extractedData: (ExtractedOffer & { netProceeds: number | null }) | null;
+  evidence: ExtractionEvidence | null;
+  form: FormTerms | null; // set when the document is a recognised standard form
+  document: ExtractedDocumentSummary | null;
+  batchId: string | null;
+  offerId: number | null; // set once confirmed into an offer
+  corrections: FieldCorrection[] | null; // what the agent changed when confirming
+  createdAt: string;
+}
+
+// Body of GET /api/extractions/:id/document
+export interface ExtractionDocumentResponse {
+  fileName: string;
+  format: string | null;
+  fileUrl: string; // the uploaded file, for PDFs and images
+  pages: { pageNumber: number; text: string; source: "text" | "ocr"; confidence: number | null }[];
+}
+
+// Body of the batch upload endpoints
+export interface ExtractionBatchResponse {
+  batchId: string;
+  total: number;
+  completed: number; // extractions that are no longer queued or processing
+  extractions: ExtractionResponse[];
+}
+
+// One version of a document attached to an offer
+export interface OfferDocumentVersion {
+  id: number;
+  fileName: string;
+  contentType: string;
+  size: number; // bytes
+  version: number;
+  url: string; // GET /api/documents/:id
+  createdAt: string;
+}
+
+// The latest version of one of an offer's documents
+export interface OfferDocument extends OfferDocumentVersion {
+  kind: DocumentKind;
+  extraction: { id: number; status: ExtractionStatus; failureReason: ExtractionFailureReason | null } | null; // contracts and addenda
+  terms: SupportingDocumentTerms | null; // pre-approval letters and proof of funds
+  previousVersions: OfferDocumentVersion[]; // newest first
+}
+
+// Body of GET and POST /api/offers/:id/documents
+export interface OfferDocumentsResponse {
+  documents: OfferDocument[];
+  combined: CombinedOfferTerms;
+}
+
+// A template from GET /api/counter-offer-templates
+export interface CounterOfferTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+}
 
 // Listing status types
 export type ListingStatus = "active" | "pending" | "sold" | "expired" | "withdrawn";
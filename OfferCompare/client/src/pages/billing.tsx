@@ -151,6 +151,7 @@ export default function Billing() {
                               <TableCell>
                                 {event.eventType === "offer_creation" ? "Offer Creation" : 
                                  event.eventType === "document_extraction" ? "Document Extraction" : 
+                                 event.eventType === "counter_offer" ? "Counter Offer" : 
                                  event.eventType}
                               </TableCell>
                               <TableCell>${Number(event.amount).toFixed(2)}</TableCell>
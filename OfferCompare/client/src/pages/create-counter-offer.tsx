@@ -29,34 +29,24 @@ export default function CreateCounterOffer() {
 
   // Fetch the original offer data
   const { data: originalOffer, isLoading: isLoadingOffer } = useQuery<Offer>({
-    queryKey: ["/api/offers", offerId],
+    queryKey: [`/api/offers/${offerId}`],
     enabled: !isNaN(offerId),
   });
 
-  // Create form schema for counter offer
-  const counterOfferSchema = insertOfferSchema
-    .extend({
-      // Add fields for counter offer
-      parentOfferId: z.number(),
-      isCounterOffer: z.boolean(),
-      versionNumber: z.number(),
-      commissionType: z.enum(["dollar", "percent"]).default("dollar"),
-    });
+  // The server links the counter to the original offer and numbers the round
+  const counterOfferSchema = insertOfferSchema;
   
   const form = useForm<z.infer<typeof counterOfferSchema>>({
     resolver: zodResolver(counterOfferSchema),
     defaultValues: {
       listingId,
-      parentOfferId: offerId,
-      isCounterOffer: true,
-      versionNumber: 1, // Will be updated when the original offer is loaded
     },
   });
 
   // Mutation for submitting counter offer
   const counterOfferMutation = useMutation({
     mutationFn: async (data: z.infer<typeof counterOfferSchema>) => {
-      const response = await apiRequest("POST", "/api/offers", data);
+      const response = await apiRequest("POST", `/api/offers/${offerId}/counter`, data);
       return await response.json();
     },
     onSuccess: () => {
@@ -64,8 +54,8 @@ export default function CreateCounterOffer() {
         title: "Counter offer created",
         description: "Your counter offer has been sent successfully",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/listings", listingId, "offers"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/offers", offerId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offerId}`] });
       navigate(`/listings/${listingId}`);
     },
     onError: (error: Error) => {
@@ -19,6 +19,7 @@ export default function CreateListing() {
     defaultValues: {
       address: "",
       city: "",
+      county: "",
       state: "",
       zipCode: "",
       price: 0,
@@ -9,17 +9,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Sidebar from "@/components/layout/sidebar";
 import OfferForm from "@/components/offers/offer-form";
 import FileUpload from "@/components/file-upload";
+import BatchUpload from "@/components/batch-upload";
 import { insertOfferSchema, Listing } from "@shared/schema";
+import { DEFAULT_COMMISSION_TERMS } from "@shared/commission";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ExtractionResponse } from "@/lib/types";
 
 export default function CreateOffer() {
   const { id: listingId } = useParams<{ id: string }>();
   const [location, navigate] = useLocation();
   const { toast } = useToast();
   
-  // Check if we should default to upload tab
+  // Check if we should default to one of the upload tabs
   const params = new URLSearchParams(location.split("?")[1]);
-  const defaultTab = params.get("mode") === "upload" ? "upload" : "manual";
+  const mode = params.get("mode");
+  const defaultTab = mode === "upload" || mode === "batch" ? mode : "manual";
   
   // Fetch listing details
   const { data: listing } = useQuery<Listing>({
@@ -33,7 +37,7 @@ export default function CreateOffer() {
       buyerName: "",
       buyerType: "",
       price: 0,
-      agentCommission: 0,
+      commission: DEFAULT_COMMISSION_TERMS,
       closingTimelineDays: 30,
       contingencies: [],
       notes: "",
@@ -73,22 +77,9 @@ export default function CreateOffer() {
     createOfferMutation.mutate(data);
   }
   
-  // Handle uploaded document data
-  const handleExtractedData = (extractedData: any) => {
-    // Pre-fill the form with extracted data
-    form.reset({
-      ...form.getValues(),
-      ...extractedData,
-      listingId: Number(listingId),
-    });
-    
-    // Switch to manual tab to review and submit
-    document.getElementById("manual-tab")?.click();
-    
-    toast({
-      title: "Document parsed",
-      description: "Please review the extracted information before submitting",
-    });
+  // Check the extracted offer against the document before it is added
+  const handleExtraction = (extraction: ExtractionResponse) => {
+    navigate(`/listings/${listingId}/extractions/${extraction.id}/review`);
   };
   
   return (
@@ -112,6 +103,7 @@ export default function CreateOffer() {
               <TabsList className="mb-6">
                 <TabsTrigger value="manual" id="manual-tab">Manual Entry</TabsTrigger>
                 <TabsTrigger value="upload">Upload Document</TabsTrigger>
+                <TabsTrigger value="batch">Upload Several</TabsTrigger>
               </TabsList>
               
               <TabsContent value="manual">
@@ -143,7 +135,15 @@ export default function CreateOffer() {
               <TabsContent value="upload">
                 <FileUpload 
                   listingId={Number(listingId)} 
-                  onExtracted={handleExtractedData} 
+                  onExtracted={handleExtraction} 
+                  onManualEntry={() => document.getElementById("manual-tab")?.click()}
+                />
+              </TabsContent>
+              
+              <TabsContent value="batch">
+                <BatchUpload 
+                  listingId={Number(listingId)} 
+                  onReview={() => navigate(`/listings/${listingId}`)}
                 />
               </TabsContent>
             </Tabs>
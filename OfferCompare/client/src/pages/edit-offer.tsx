@@ -0,0 +1,142 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Form } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import Sidebar from "@/components/layout/sidebar";
+import OfferForm from "@/components/offers/offer-form";
+import { insertOfferSchema, Offer } from "@shared/schema";
+import { DEFAULT_COMMISSION_TERMS } from "@shared/commission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export default function EditOffer() {
+  const params = useParams<{ listingId: string; offerId: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const listingId = parseInt(params.listingId);
+  const offerId = parseInt(params.offerId);
+
+  const { data: offer, isLoading } = useQuery<Offer>({
+    queryKey: [`/api/offers/${offerId}`],
+    enabled: !isNaN(offerId),
+  });
+
+  const form = useForm({
+    resolver: zodResolver(insertOfferSchema),
+    defaultValues: {
+      listingId,
+      buyerName: "",
+      buyerType: "",
+      price: 0,
+      commission: DEFAULT_COMMISSION_TERMS,
+      closingTimelineDays: 30,
+      sellerConcessions: undefined as number | undefined,
+      contingencies: [] as string[],
+      notes: "",
+    }
+  });
+
+  // Fill the form with the offer's current terms once it loads
+  useEffect(() => {
+    if (offer) {
+      form.reset({
+        listingId,
+        buyerName: offer.buyerName,
+        buyerType: offer.buyerType ?? "",
+        price: Number(offer.price),
+        commission: offer.commission ?? DEFAULT_COMMISSION_TERMS,
+        closingTimelineDays: offer.closingTimelineDays ?? 30,
+        sellerConcessions: offer.sellerConcessions != null ? Number(offer.sellerConcessions) : undefined,
+        contingencies: (offer.contingencies as string[] | null) ?? [],
+        notes: offer.notes ?? "",
+      });
+    }
+  }, [offer, listingId, form]);
+
+  const updateOfferMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const res = await apiRequest("PATCH", `/api/offers/${offerId}`, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Net proceeds and every offer's score are recalculated
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offerId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/insights`] });
+      toast({
+        title: "Offer updated",
+        description: "The offer has been updated successfully",
+      });
+      navigate(`/listings/${listingId}/offers/${offerId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(data: any) {
+    updateOfferMutation.mutate(data);
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+
+      <div className="flex flex-1 flex-col overflow-hidden">
+        {/* Top Header */}
+        <header className="bg-white shadow">
+          <div className="flex h-16 items-center px-4 md:px-6">
+            <h2 className="text-lg font-medium">
+              Edit Offer{offer ? ` from ${offer.buyerName}` : ""}
+            </h2>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 overflow-y-auto bg-neutral-100 p-4 md:p-6">
+          <div className="max-w-4xl mx-auto">
+            {isLoading || !offer ? (
+              <div className="space-y-4">
+                <Skeleton className="h-12 w-full" />
+                <Skeleton className="h-36 w-full" />
+                <Skeleton className="h-48 w-full" />
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <OfferForm form={form} />
+
+                  <div className="flex justify-end space-x-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => navigate(`/listings/${listingId}/offers/${offerId}`)}
+                      type="button"
+                      disabled={updateOfferMutation.isPending}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={updateOfferMutation.isPending}
+                    >
+                      {updateOfferMutation.isPending ? "Saving..." : "Save Changes"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -4,9 +4,10 @@ import { useParams, useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Upload, Search } from "lucide-react";
+import { Plus, Upload, Search, Files, FileDown } from "lucide-react";
 import Sidebar from "@/components/layout/sidebar";
 import OfferTable from "@/components/offers/offer-table";
+import ReviewQueue from "@/components/offers/review-queue";
 import PrioritySlider from "@/components/priorities/priority-slider";
 import OfferAnalysis from "@/components/offers/offer-analysis";
 import { Listing, Offer, ListingPriorities } from "@shared/schema";
@@ -44,6 +45,9 @@ export default function ListingDetails() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/listings/${id}/priorities`] });
+      // Scores are recalculated from the new weights
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${id}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${id}/insights`] });
       toast({
         title: "Priorities updated",
         description: "Your priorities have been saved successfully.",
@@ -102,11 +106,23 @@ export default function ListingDetails() {
                 />
               </div>
               
+              <Button variant="outline" asChild>
+                <a href={`/api/listings/${id}/report.pdf`} download>
+                  <FileDown className="mr-2 h-4 w-4" />
+                  Download Report
+                </a>
+              </Button>
+              
               <Button variant="outline" onClick={() => navigate(`/listings/${id}/offers/create?mode=upload`)}>
                 <Upload className="mr-2 h-4 w-4" /> 
                 Upload Offer
               </Button>
               
+              <Button variant="outline" onClick={() => navigate(`/listings/${id}/offers/create?mode=batch`)}>
+                <Files className="mr-2 h-4 w-4" />
+                Upload Several
+              </Button>
+              
               <Button onClick={() => navigate(`/listings/${id}/offers/create`)}>
                 <Plus className="mr-2 h-4 w-4" />
                 Add Offer Manually
@@ -245,6 +261,9 @@ export default function ListingDetails() {
                 </CardContent>
               </Card>
               
+              {/* Uploaded offers waiting to be confirmed */}
+              <ReviewQueue listingId={Number(id)} />
+              
               {/* Offer Comparison Table */}
               <OfferTable offers={filteredOffers} isLoading={isOffersLoading} listingId={Number(id)} />
               
@@ -0,0 +1,435 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, useLocation, Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbSeparator } from "@/components/ui/breadcrumb";
+import { ChevronLeft, FileText, History } from "lucide-react";
+import OfferDiff from "@/components/offers/offer-diff";
+import { STATUS_BADGE_CLASSES } from "@/components/offers/offer-card";
+import DeleteOfferButton from "@/components/offers/delete-offer-button";
+import OfferDocuments from "@/components/offers/offer-documents";
+import CounterOfferDocumentButton from "@/components/offers/counter-offer-document-button";
+import { Offer, OfferStatusEvent, SCORE_CATEGORIES, SCORE_CATEGORY_LABELS } from "@shared/schema";
+import { OFFER_STATUS_ACTIONS, OFFER_STATUS_LABELS, OfferStatusAction, canTransitionOffer, isOfferStatus } from "@shared/offer-status";
+import { NEGOTIATION_SIDE_LABELS, NegotiationThread } from "@shared/negotiation";
+import { COMMISSION_EXTRA_LABELS, formatCommissionTerm } from "@shared/commission";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Button labels for the status actions available on this page
+const STATUS_ACTION_LABELS: Record<OfferStatusAction, string> = {
+  accept: "Accept",
+  reject: "Reject",
+  withdraw: "Mark Withdrawn",
+  expire: "Mark Expired",
+  backup: "Keep as Backup",
+};
+
+interface TimelineEntry {
+  key: string;
+  at: Date;
+  title: string;
+  note?: string | null;
+  isStatusChange: boolean;
+}
+
+const formatMoney = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return "N/A";
+  return "$" + Number(value).toLocaleString();
+};
+
+const formatDate = (value: string | Date | null | undefined): string => {
+  if (!value) return "N/A";
+  return new Date(value).toLocaleDateString();
+};
+
+const statusLabel = (status: string): string => isOfferStatus(status) ? OFFER_STATUS_LABELS[status] : status;
+
+const sideLabel = (side: string): string =>
+  ((NEGOTIATION_SIDE_LABELS as Record<string, string>)[side] ?? side).toLowerCase();
+
+export default function OfferDetails() {
+  const [, navigate] = useLocation();
+  const params = useParams<{ listingId: string; offerId: string }>();
+  const { toast } = useToast();
+
+  const listingId = parseInt(params.listingId);
+  const offerId = parseInt(params.offerId);
+
+  const { data: offer, isLoading: isLoadingOffer } = useQuery<Offer>({
+    queryKey: [`/api/offers/${offerId}`],
+    enabled: !isNaN(offerId),
+  });
+
+  // Every round of the negotiation this offer belongs to
+  const { data: thread } = useQuery<NegotiationThread>({
+    queryKey: [`/api/offers/${offerId}/history`],
+    enabled: !isNaN(offerId),
+  });
+
+  const { data: statusEvents = [] } = useQuery<OfferStatusEvent[]>({
+    queryKey: [`/api/offers/${offerId}/status-events`],
+    enabled: !isNaN(offerId),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (action: OfferStatusAction) => {
+      const res = await apiRequest("POST", `/api/offers/${offerId}/${action}`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offerId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offerId}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/offers/${offerId}/status-events`] });
+      // Accepting an offer also changes the listing and the competing offers
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/listings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const breadcrumb = (
+    <Breadcrumb>
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          <BreadcrumbLink href="/dashboard">Listings</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbSeparator />
+        <BreadcrumbItem>
+          <BreadcrumbLink href={`/listings/${listingId}`}>Listing Details</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbSeparator />
+        <BreadcrumbItem>
+          <BreadcrumbLink>Offer Details</BreadcrumbLink>
+        </BreadcrumbItem>
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+
+  if (isLoadingOffer || !offer) {
+    return (
+      <div className="p-6 space-y-6">
+        {breadcrumb}
+        <div className="space-y-4">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-36 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  const versions = thread?.offers ?? [offer];
+  const offersById = new Map(versions.map(o => [o.id, o]));
+  const contingencies = (offer.contingencies as string[] | null) ?? [];
+  // Rounds being received and their status changes, oldest first
+  const timeline: TimelineEntry[] = [
+    ...versions.map(version => ({
+      key: `offer-${version.id}`,
+      at: new Date(version.createdAt),
+      title: `Version ${version.versionNumber} received`,
+      isStatusChange: false,
+    })),
+    ...statusEvents.map(event => ({
+      key: `event-${event.id}`,
+      at: new Date(event.createdAt),
+      title: `Version ${offersById.get(event.offerId)?.versionNumber ?? "?"}: ${statusLabel(event.fromStatus)} → ${statusLabel(event.toStatus)}`,
+      note: event.note,
+      isStatusChange: true,
+    })),
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+  // Deleted offers are kept for the history only
+  const availableActions = offer.deletedAt ? [] : (Object.keys(OFFER_STATUS_ACTIONS) as OfferStatusAction[])
+    .filter(action => canTransitionOffer(offer.status, OFFER_STATUS_ACTIONS[action]));
+
+  return (
+    <div className="p-6 space-y-6">
+      {breadcrumb}
+
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-2xl font-bold">Offer from {offer.buyerName}</h1>
+            <Badge variant="outline" className={`border-0 ${STATUS_BADGE_CLASSES[offer.status] ?? ""}`}>
+              {statusLabel(offer.status)}
+            </Badge>
+            {offer.deletedAt && (
+              <Badge variant="outline" className="border-0 bg-red-100 text-red-800">
+                Deleted {formatDate(offer.deletedAt)}
+              </Badge>
+            )}
+          </div>
+          <p className="text-neutral-500">
+            Version {offer.versionNumber}
+            {offer.isCounterOffer ? " (counter offer)" : ""}
+            {" · "}by the {sideLabel(offer.authoredBy)}
+            {" · "}received {formatDate(offer.createdAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {availableActions.map(action => (
+            <Button
+              key={action}
+              variant="outline"
+              size="sm"
+              disabled={statusMutation.isPending}
+              onClick={() => statusMutation.mutate(action)}
+            >
+              {STATUS_ACTION_LABELS[action]}
+            </Button>
+          ))}
+          {!offer.deletedAt && canTransitionOffer(offer.status, "countered") && (
+            <Button size="sm" asChild>
+              <Link href={`/listings/${listingId}/offers/${offer.id}/counter`}>Counter Offer</Link>
+            </Button>
+          )}
+          {!offer.deletedAt && offer.isCounterOffer && (
+            <CounterOfferDocumentButton offer={offer} />
+          )}
+          {!offer.deletedAt && (
+            <>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/listings/${listingId}/offers/${offer.id}/edit`}>Edit</Link>
+              </Button>
+              <DeleteOfferButton offer={offer} listingId={listingId} onDeleted={() => navigate(`/listings/${listingId}`)} />
+            </>
+          )}
+          <Button variant="outline" size="sm" onClick={() => navigate(`/listings/${listingId}`)}>
+            <ChevronLeft className="h-4 w-4 mr-2" />
+            Back to Listing
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Terms */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Terms</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="text-sm text-neutral-500">Offer Price</p>
+              <p className="text-lg font-medium text-green-600">{formatMoney(offer.price)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-neutral-500">Buyer Type</p>
+              <p className="font-medium">{offer.buyerType || "Buyer"}</p>
+            </div>
+            <div>
+              <p className="text-sm text-neutral-500">Closing Date</p>
+              <p className="font-medium">{formatDate(offer.closingDate)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-neutral-500">Closing Timeline</p>
+              <p className="font-medium">{offer.closingTimelineDays != null ? `${offer.closingTimelineDays} days` : "N/A"}</p>
+            </div>
+            <div>
+              <p className="text-sm text-neutral-500">Seller Concessions</p>
+              <p className="font-medium">{formatMoney(offer.sellerConcessions ?? 0)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-neutral-500">Commission</p>
+              {offer.commission ? (
+                <div className="font-medium">
+                  <p>Listing side: {formatCommissionTerm(offer.commission.listingSide)}</p>
+                  <p>Buyer side: {formatCommissionTerm(offer.commission.buyerSide)}</p>
+                  {offer.commission.extras.map((extra, index) => (
+                    <p key={index}>
+                      {extra.description || COMMISSION_EXTRA_LABELS[extra.kind]}: {formatCommissionTerm(extra)}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className="font-medium">N/A</p>
+              )}
+            </div>
+            <div className="col-span-2">
+              <p className="text-sm text-neutral-500 mb-1">Contingencies</p>
+              {contingencies.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {contingencies.map((contingency, i) => (
+                    <Badge key={i} variant="outline" className="bg-blue-100 text-blue-800 border-blue-200">
+                      {contingency}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="font-medium">None</p>
+              )}
+            </div>
+            <div className="col-span-2">
+              <p className="text-sm text-neutral-500">Notes</p>
+              <p className="text-neutral-700">{offer.notes || "No notes"}</p>
+            </div>
+            <div className="col-span-2">
+              <p className="text-sm text-neutral-500">Offer Document</p>
+              {offer.documentUrl?.startsWith("/api/documents/") ? (
+                <p className="flex items-center gap-4 font-medium">
+                  <a
+                    href={offer.documentUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2 text-primary hover:underline"
+                  >
+                    <FileText className="h-4 w-4" />
+                    View document
+                  </a>
+                  <a href={`${offer.documentUrl}?download=1`} className="text-sm text-neutral-500 hover:underline">
+                    Download
+                  </a>
+                </p>
+              ) : offer.documentUrl ? (
+                // Uploaded before documents were kept in the document store
+                <p className="flex items-center gap-2 font-medium">
+                  <FileText className="h-4 w-4 text-primary" />
+                  {offer.documentUrl.split(/[\\/]/).pop()}
+                </p>
+              ) : (
+                <p className="font-medium">No document attached</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Net sheet */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Net Sheet</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <div className="grid grid-cols-2 gap-1">
+              <p>Offer Price</p>
+              <p className="text-right">{formatMoney(offer.price)}</p>
+            </div>
+            {offer.netSheet?.items.map((item, index) => (
+              <div key={`${item.key}-${index}`} className="grid grid-cols-2 gap-1">
+                <p>
+                  {item.label}
+                  {item.note && <span className="block text-xs text-neutral-400">{item.note}</span>}
+                </p>
+                <p className="text-right text-red-500">-{formatMoney(item.amount)}</p>
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-1 border-t pt-2 font-medium">
+              <p>Net Proceeds</p>
+              <p className="text-right">{formatMoney(offer.netProceeds)}</p>
+            </div>
+            {offer.netSheet?.rule && (
+              <p className="text-xs text-neutral-400">
+                Closing costs: {offer.netSheet.rule.name} rules (v{offer.netSheet.rule.version})
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Contract, addenda and supporting documents */}
+      <OfferDocuments offer={offer} listingId={listingId} />
+
+      {/* Score breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            Score: {offer.overallScore ?? "—"}<span className="ml-1 text-xs font-normal text-neutral-500">/100</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {offer.scoreBreakdown ? (
+            <div className="grid gap-4 md:grid-cols-5">
+              {SCORE_CATEGORIES.map(category => {
+                const categoryScore = offer.scoreBreakdown![category];
+                return (
+                  <div key={category}>
+                    <p className="text-sm text-neutral-500">{SCORE_CATEGORY_LABELS[category]}</p>
+                    <div className="my-1 h-2 w-full rounded-full bg-neutral-200">
+                      <div
+                        className="h-2 rounded-full bg-primary"
+                        style={{ width: `${Math.round(categoryScore.normalizedScore * 100)}%` }}
+                      ></div>
+                    </div>
+                    <p className="text-xs text-neutral-500">
+                      {Math.round(categoryScore.normalizedScore * 100)}/100 × weight {categoryScore.weight} = +{categoryScore.weightedContribution} pts
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-neutral-500">This offer hasn't been scored yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Negotiation history */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Negotiation History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          {versions.length < 2 ? (
+            <p className="text-sm text-neutral-500">No counter offers yet.</p>
+          ) : (
+            versions.slice(1).map(version => {
+              // Compare each round with the offer it answered
+              const previous = (version.parentOfferId != null && offersById.get(version.parentOfferId))
+                || versions[versions.indexOf(version) - 1];
+              return (
+                <div key={version.id}>
+                  <h4 className="mb-3 text-sm font-medium">
+                    Version {previous.versionNumber} → Version {version.versionNumber}
+                    <span className="ml-2 font-normal text-neutral-500">
+                      countered by the {sideLabel(version.authoredBy)} on {formatDate(version.createdAt)}
+                    </span>
+                    {version.id !== offer.id && (
+                      <Link href={`/listings/${listingId}/offers/${version.id}`} className="ml-2 text-primary underline">
+                        View
+                      </Link>
+                    )}
+                  </h4>
+                  <OfferDiff
+                    originalOffer={previous}
+                    newOffer={version}
+                    originalLabel={`Version ${previous.versionNumber}`}
+                    newLabel={`Version ${version.versionNumber}`}
+                  />
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Status timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <History className="h-4 w-4" />
+            Status Timeline
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ol className="relative space-y-4 border-l border-neutral-200 pl-4">
+            {timeline.map(entry => (
+              <li key={entry.key} className="text-sm">
+                <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${entry.isStatusChange ? "bg-primary" : "bg-neutral-300"}`}></span>
+                <p className="font-medium">{entry.title}</p>
+                {entry.note && <p className="text-neutral-600">{entry.note}</p>}
+                <p className="text-xs text-neutral-500">{entry.at.toLocaleString()}</p>
+              </li>
+            ))}
+          </ol>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Form } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import Sidebar from "@/components/layout/sidebar";
+import OfferForm from "@/components/offers/offer-form";
+import DocumentViewer from "@/components/offers/document-viewer";
+import { insertOfferSchema, Listing, Offer } from "@shared/schema";
+import { DEFAULT_COMMISSION_TERMS } from "@shared/commission";
+import { EXTRACTED_FIELD_LABELS, ExtractedField } from "@shared/extraction";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ExtractionResponse } from "@/lib/types";
+
+/**
+ * Check an offer read from a document against the document itself before it
+ * is added. Clicking into a field shows the passage its value came from.
+ */
+export default function ReviewExtraction() {
+  const params = useParams<{ listingId: string; extractionId: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  // Field whose source passage is shown in the document
+  const [activeField, setActiveField] = useState<ExtractedField | null>(null);
+
+  const listingId = parseInt(params.listingId);
+  const extractionId = parseInt(params.extractionId);
+
+  const { data: listing } = useQuery<Listing>({
+    queryKey: [`/api/listings/${listingId}`],
+  });
+
+  const { data: extraction, isLoading } = useQuery<ExtractionResponse>({
+    queryKey: [`/api/extractions/${extractionId}`],
+    enabled: !isNaN(extractionId),
+  });
+
+  const form = useForm({
+    resolver: zodResolver(insertOfferSchema),
+    defaultValues: {
+      listingId,
+      buyerName: "",
+      buyerType: "",
+      price: 0,
+      commission: DEFAULT_COMMISSION_TERMS,
+      closingTimelineDays: 30,
+      contingencies: [] as string[],
+      notes: "",
+    }
+  });
+
+  // Pre-fill the form with what the document stated once the extraction loads,
+  // keeping the defaults for anything it didn't
+  useEffect(() => {
+    const extractedData = extraction?.extractedData;
+    if (extractedData) {
+      const statedValues = Object.fromEntries(
+        Object.entries(extractedData).filter(([, value]) => value != null)
+      );
+      form.reset({
+        ...form.getValues(),
+        ...statedValues,
+        // Leave commission for the agent to fill in when the document didn't state it clearly
+        commission: extractedData.commission ?? DEFAULT_COMMISSION_TERMS,
+        listingId,
+      });
+    }
+  }, [extraction?.id]);
+
+  const confirmMutation = useMutation({
+    mutationFn: async (data: any) => {
+      // The server records which extracted values were changed
+      const { listingId: _listingId, ...terms } = data;
+      const res = await apiRequest("POST", `/api/extractions/${extractionId}/confirm`, terms);
+      return await res.json() as Offer;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/offers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/extractions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/listings/${listingId}/insights`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/extractions/${extractionId}`] });
+      toast({
+        title: "Offer created",
+        description: "The offer has been created successfully",
+      });
+      navigate(`/listings/${listingId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error creating offer",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(data: any) {
+    confirmMutation.mutate(data);
+  }
+
+  const evidence = extraction?.evidence ?? undefined;
+  const citation = activeField ? evidence?.[activeField]?.citation ?? null : null;
+  const canReview = extraction && extraction.offerId == null
+    && (extraction.status === "succeeded" || extraction.status === "partial");
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+
+      <div className="flex flex-1 flex-col overflow-hidden">
+        {/* Top Header */}
+        <header className="bg-white shadow">
+          <div className="flex h-16 items-center px-4 md:px-6">
+            <h2 className="text-lg font-medium">
+              Review Offer for {listing?.address}
+            </h2>
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 overflow-hidden bg-neutral-100 p-4 md:p-6">
+          {isLoading ? (
+            <div className="grid h-full gap-6 lg:grid-cols-2">
+              <Skeleton className="h-full w-full" />
+              <Skeleton className="h-full w-full" />
+            </div>
+          ) : !canReview ? (
+            <Card className="mx-auto max-w-xl">
+              <CardContent className="flex flex-col items-center p-8 text-center">
+                <h3 className="mb-2 text-lg font-medium">Nothing to review</h3>
+                <p className="mb-6 text-neutral-500">
+                  {extraction?.offerId != null
+                    ? "This document has already been added as an offer."
+                    : "No offer details have been extracted from this document."}
+                </p>
+                <div className="flex gap-3">
+                  <Button variant="outline" onClick={() => navigate(`/listings/${listingId}`)}>
+                    Back to listing
+                  </Button>
+                  {extraction?.offerId != null && (
+                    <Button onClick={() => navigate(`/listings/${listingId}/offers/${extraction.offerId}`)}>
+                      View offer
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid h-full gap-6 lg:grid-cols-2">
+              {/* Source document */}
+              <div className="min-h-0">
+                <DocumentViewer extractionId={extractionId} citation={citation} />
+              </div>
+
+              {/* Extracted terms */}
+              <div className="min-h-0 overflow-y-auto">
+                {activeField && (
+                  <p className="mb-4 text-sm text-neutral-500">
+                    {citation
+                      ? `Showing where ${EXTRACTED_FIELD_LABELS[activeField]} was found.`
+                      : `${EXTRACTED_FIELD_LABELS[activeField]} wasn't found in the document.`}
+                  </p>
+                )}
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                    <OfferForm form={form} evidence={evidence} onFieldFocus={setActiveField} />
+
+                    <div className="flex justify-end space-x-4">
+                      <Button
+                        variant="outline"
+                        onClick={() => navigate(`/listings/${listingId}`)}
+                        type="button"
+                        disabled={confirmMutation.isPending}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={confirmMutation.isPending}
+                      >
+                        {confirmMutation.isPending ? "Creating..." : "Create Offer"}
+                      </Button>
+                    </div>
+                  </form>
+                </Form>
+              </div>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import { storage } from "../server/storage";
+import { rescoreListingOffers } from "../server/scoring";
+import { calculateNetSheet, netSheetInputFor } from "../shared/net-sheet";
+import { negotiationFieldsFor } from "../shared/negotiation";
 import { InsertListing, InsertOffer, Listing } from "../shared/schema";
 import crypto from "crypto";
 import { promisify } from "util";
@@ -37,6 +40,7 @@ async function addDemoListingAndOffers() {
     const listingData = {
       address: "123 Maple Avenue",
       city: "Lakewood",
+      county: "Jefferson",
       state: "CO",
       zipCode: "80228",
       price: 725000,
@@ -80,7 +84,11 @@ async function addDemoListingAndOffers() {
         additionalTerms: "Flexible on closing date.",
         status: "pending",
         agentName: "Rebecca Miller",
-        agentCommission: 2.5,
+        commission: {
+          listingSide: { basis: "percent", amount: 2.5 },
+          buyerSide: { basis: "percent", amount: 2.5 },
+          extras: [],
+        },
         documentUrl: null
       },
       {
@@ -97,7 +105,11 @@ async function addDemoListingAndOffers() {
         additionalTerms: "Can close within 3 weeks. No financing needed.",
         status: "pending",
         agentName: "David Wong",
-        agentCommission: 2.5,
+        commission: {
+          listingSide: { basis: "percent", amount: 2.5 },
+          buyerSide: { basis: "percent", amount: 2.5 },
+          extras: [],
+        },
         documentUrl: null
       },
       {
@@ -114,7 +126,11 @@ async function addDemoListingAndOffers() {
         additionalTerms: "Requesting seller assist with closing costs. Need 60 days to close due to sale of current home.",
         status: "pending",
         agentName: "Jennifer Reed",
-        agentCommission: 3,
+        commission: {
+          listingSide: { basis: "percent", amount: 3 },
+          buyerSide: { basis: "percent", amount: 3 },
+          extras: [],
+        },
         documentUrl: null
       },
       {
@@ -131,17 +147,25 @@ async function addDemoListingAndOffers() {
         additionalTerms: "Experienced investor with multiple properties. Can close quickly.",
         status: "pending",
         agentName: "Carlos Mendez",
-        agentCommission: 2.5,
+        commission: {
+          listingSide: { basis: "percent", amount: 2.5 },
+          buyerSide: { basis: "percent", amount: 2.5 },
+          extras: [],
+        },
         documentUrl: null
       }
     ];
     
     console.log("Creating demo offers...");
     for (const offerData of offers) {
-      const offer = await storage.createOffer({ ...offerData, listingId: listing.id }, user.id);
+      const netSheet = calculateNetSheet(netSheetInputFor(offerData, listing));
+      const offer = await storage.createOffer({ ...offerData, listingId: listing.id }, user.id, netSheet, negotiationFieldsFor(undefined, []));
       console.log(`Created offer from: "${offer.buyerName}" for $${offer.price}`);
     }
     
+    // Score the offers against each other using the listing priorities
+    await rescoreListingOffers(listing.id);
+    
     console.log("Demo data created successfully!");
     
   } catch (error) {
@@ -0,0 +1,95 @@
+import assert from "assert";
+import path from "path";
+import { EXTRACTED_FIELDS, fieldValuesMatch } from "@shared/extraction";
+import { parseDocument } from "../server/document-parser";
+import { ExtractionError } from "../server/extraction-provider";
+import { DEFAULT_GOLDEN_SET_DIR, EVALUATION_LISTING, loadGoldenSet } from "../server/extraction-eval";
+import { createExtractionProvider, extractOfferDetails } from "../server/extractor";
+import { startMockLlmServer } from "../server/mock-llm-server";
+
+// Offline check of the extraction path through the OpenAI-compatible provider,
+// with the mock LLM server standing in for the model:
+//   npm run check:mock-extraction
+// Each golden document should come back the same as the built-in rules read
+// it, a server that fails for a while should be retried, and one that keeps
+// failing or answers nonsense should fail the way the extraction queue expects.
+
+function mockProvider(url: string, model = "mock") {
+  return createExtractionProvider({ EXTRACTION_PROVIDER: "openai-compatible", EXTRACTION_BASE_URL: url, EXTRACTION_MODEL: model });
+}
+
+async function expectExtractionError(promise: Promise<unknown>, reason: string, retryable: boolean) {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof ExtractionError, `expected an ExtractionError, got ${error}`);
+    assert.strictEqual(error.reason, reason);
+    assert.strictEqual(error.retryable, retryable);
+    return true;
+  });
+}
+
+async function main() {
+  const rules = createExtractionProvider({ EXTRACTION_PROVIDER: "rules" });
+  const documents = await Promise.all(loadGoldenSet().map(({ file }) =>
+    parseDocument(path.join(DEFAULT_GOLDEN_SET_DIR, "documents", file), file).then(document => ({ file, document }))
+  ));
+  const [first] = documents;
+
+  const mock = await startMockLlmServer();
+  try {
+    // The whole path: prompt, chat completion, response parsing and evidence checks
+    const provider = mockProvider(mock.url);
+    for (const { file, document } of documents) {
+      const viaMock = await extractOfferDetails(document, EVALUATION_LISTING, { provider, useTemplates: false });
+      const viaRules = await extractOfferDetails(document, EVALUATION_LISTING, { provider: rules, useTemplates: false });
+      assert.strictEqual(viaMock.extractor, "openai-compatible");
+      EXTRACTED_FIELDS.forEach(field => {
+        assert.ok(
+          fieldValuesMatch(viaRules.offer[field], viaMock.offer[field]),
+          `${file} ${field}: expected ${JSON.stringify(viaRules.offer[field])}, got ${JSON.stringify(viaMock.offer[field])}`
+        );
+      });
+    }
+    assert.strictEqual(mock.requests, documents.length);
+    console.log(`ok: ${documents.length} documents extracted through the mock server`);
+
+    const unavailable = mockProvider(mock.url, "mock-unavailable");
+    await expectExtractionError(unavailable.extract(first.document, EVALUATION_LISTING), "provider_error", true);
+    console.log("ok: an unavailable server fails with a retryable error");
+
+    const invalid = mockProvider(mock.url, "mock-invalid");
+    await expectExtractionError(invalid.extract(first.document, EVALUATION_LISTING), "invalid_response", true);
+    console.log("ok: an answer that isn't JSON fails as an invalid response");
+  } finally {
+    await mock.close();
+  }
+
+  // The client retries a 503 by itself, so one failure goes unnoticed
+  const flaky = await startMockLlmServer({ failFirst: 1 });
+  try {
+    const output = await extractOfferDetails(first.document, EVALUATION_LISTING, { provider: mockProvider(flaky.url), useTemplates: false });
+    assert.ok(output.offer.buyerName, "no buyer name after the retry");
+    assert.strictEqual(flaky.requests, 2);
+    console.log("ok: a single failure is retried by the client");
+  } finally {
+    await flaky.close();
+  }
+
+  // More failures than the client retries are left to the extraction queue,
+  // whose next attempt goes through
+  const down = await startMockLlmServer({ failFirst: 3 });
+  try {
+    const provider = mockProvider(down.url);
+    await expectExtractionError(extractOfferDetails(first.document, EVALUATION_LISTING, { provider, useTemplates: false }), "provider_error", true);
+    assert.strictEqual(down.requests, 3);
+    const output = await extractOfferDetails(first.document, EVALUATION_LISTING, { provider, useTemplates: false });
+    assert.ok(output.offer.buyerName, "no buyer name on the next attempt");
+    console.log("ok: a server that stays down fails retryably, and the next attempt succeeds");
+  } finally {
+    await down.close();
+  }
+}
+
+main().catch(error => {
+  console.error("Mock extraction check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+import { parseArgs } from "util";
+import { EXTRACTED_FIELD_LABELS } from "@shared/extraction";
+import { createExtractionProvider, extractionConfigProblem } from "../server/extractor";
+import { DEFAULT_GOLDEN_SET_DIR, evaluateExtraction, loadGoldenSet } from "../server/extraction-eval";
+
+// Score extraction against the golden document set:
+//   npm run eval:extraction
+//   npm run eval:extraction -- --provider openai --threshold 0.9
+// The provider is configured like the app (EXTRACTION_PROVIDER and friends),
+// unless --provider picks another one. With neither, the built-in rules are
+// scored, so a plain run works offline; a provider that is missing its config
+// is skipped. --no-templates sends standard forms to the provider as well.
+// Exits with 1 when the exact-match rate over all fields is below the
+// threshold (EXTRACTION_EVAL_THRESHOLD, 0.8 when not set).
+
+const { values: options } = parseArgs({
+  options: {
+    provider: { type: "string" },
+    threshold: { type: "string" },
+    "no-templates": { type: "boolean", default: false },
+    dir: { type: "string", default: DEFAULT_GOLDEN_SET_DIR },
+  },
+});
+
+const threshold = Number(options.threshold ?? process.env.EXTRACTION_EVAL_THRESHOLD ?? 0.8);
+
+function percent(value: number | null): string {
+  return value == null ? "   -" : `${(value * 100).toFixed(0)}%`.padStart(4);
+}
+
+async function main() {
+  const env = { ...process.env, EXTRACTION_PROVIDER: options.provider || process.env.EXTRACTION_PROVIDER || "rules" };
+  // Scoring a provider that fails every document would only measure the missing config
+  const problem = extractionConfigProblem(env);
+  if (problem) {
+    console.log(`Skipping the evaluation: the ${env.EXTRACTION_PROVIDER} provider isn't set up (${problem}). Use --provider rules to evaluate the built-in rules.`);
+    return;
+  }
+  const provider = createExtractionProvider(env);
+  const cases = loadGoldenSet(options.dir);
+
+  console.log(`Evaluating ${cases.length} documents with ${provider.name}${options["no-templates"] ? ", without form templates" : ""}\n`);
+  const report = await evaluateExtraction(cases, { provider, useTemplates: !options["no-templates"], dir: options.dir });
+
+  report.cases.forEach(result => {
+    const status = result.error ? `failed: ${result.error}` : result.mismatches.length === 0 ? "ok" : `${result.mismatches.length} wrong`;
+    console.log(`${result.file} (${result.extractor ?? "no extractor"}): ${status}`);
+    result.mismatches.forEach(({ field, expected, actual }) => {
+      console.log(`  ${EXTRACTED_FIELD_LABELS[field]}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    });
+  });
+
+  console.log("\nField                 Scored  Precision  Exact match");
+  report.fields.forEach(score => {
+    console.log(`${EXTRACTED_FIELD_LABELS[score.field].padEnd(22)}${String(score.scored).padStart(6)}  ${percent(score.precision).padStart(9)}  ${percent(score.exactMatchRate).padStart(11)}`);
+  });
+  console.log(`\nOverall exact match: ${percent(report.exactMatchRate).trim()} (threshold ${percent(threshold).trim()})`);
+
+  if (report.exactMatchRate < threshold) {
+    console.error("Extraction accuracy is below the threshold");
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error("Evaluation failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+import { startMockLlmServer } from "../server/mock-llm-server";
+
+// Run the mock LLM server on its own, e.g. for offline development:
+//   npm run mock-llm
+// then start the app with the EXTRACTION_* settings it prints
+
+const port = Number(process.env.MOCK_LLM_PORT) || 4010;
+
+startMockLlmServer({ port, failFirst: Number(process.env.MOCK_LLM_FAIL_FIRST) || 0 })
+  .then(server => {
+    console.log(`Mock LLM server listening at ${server.url}`);
+    console.log(`Use it with EXTRACTION_PROVIDER=openai-compatible EXTRACTION_BASE_URL=${server.url} EXTRACTION_MODEL=mock`);
+  })
+  .catch(error => {
+    console.error("Failed to start the mock LLM server:", error);
+    process.exit(1);
+  });
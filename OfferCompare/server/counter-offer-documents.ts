@@ -0,0 +1,120 @@
+import { Listing, Offer } from "@shared/schema";
+import { formatCommissionTerm } from "@shared/commission";
+import { CounterOfferPlaceholder, CounterOfferTemplate, fillTemplate } from "./counter-offer-templates";
+import { PdfWriter } from "./pdf-writer";
+
+// Renders a counter offer as a PDF to send to the buyer's agent: the wording
+// of a template around a table of the terms the counter changes.
+
+export interface CounterOfferDocumentInput {
+  template: CounterOfferTemplate;
+  listing: Listing;
+  counter: Offer;
+  thread: Offer[]; // every round of the negotiation, in version order
+  respondBy: Date;
+  otherCounters: number; // other buyers being countered at the same time
+  generatedAt?: Date;
+}
+
+const formatMoney = (value: string | number | null | undefined): string =>
+  "$" + Number(value ?? 0).toLocaleString("en-US");
+
+// Offer dates are stored as midnight UTC, so they are written in UTC too
+const formatDate = (value: Date | string): string =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+
+// Rows of the terms table, in the order a purchase agreement lists them
+const TERM_ROWS: { label: string; format: (offer: Offer) => string }[] = [
+  { label: "Purchase price", format: offer => formatMoney(offer.price) },
+  { label: "Seller concessions", format: offer => formatMoney(offer.sellerConcessions) },
+  {
+    label: "Close of escrow",
+    format: offer => offer.closingDate
+      ? formatDate(offer.closingDate)
+      : offer.closingTimelineDays != null ? `${offer.closingTimelineDays} days after acceptance` : "Not stated",
+  },
+  { label: "Contingencies", format: offer => ((offer.contingencies as string[] | null) ?? []).join(", ") || "None" },
+  { label: "Listing side commission", format: offer => offer.commission ? formatCommissionTerm(offer.commission.listingSide) : "Not stated" },
+  { label: "Buyer side commission", format: offer => offer.commission ? formatCommissionTerm(offer.commission.buyerSide) : "Not stated" },
+  { label: "Financing", format: offer => offer.buyerType || "Not stated" },
+  { label: "Other terms", format: offer => offer.notes || "None" },
+];
+
+/**
+ * Name of the generated file, e.g. "counter-offer-v3.pdf"
+ */
+export function counterOfferFileName(template: CounterOfferTemplate, counter: Offer): string {
+  return `${template.id}-v${counter.versionNumber}.pdf`;
+}
+
+export async function renderCounterOfferDocument({
+  template,
+  listing,
+  counter,
+  thread,
+  respondBy,
+  otherCounters,
+  generatedAt = new Date(),
+}: CounterOfferDocumentInput): Promise<Buffer> {
+  const countered = thread.find(offer => offer.id === counter.parentOfferId) ?? counter;
+  // Counters the seller has made in this negotiation, this one included
+  const counterNumber = thread.filter(offer =>
+    offer.isCounterOffer && offer.authoredBy === counter.authoredBy && offer.versionNumber <= counter.versionNumber
+  ).length;
+
+  const values: Record<CounterOfferPlaceholder, string> = {
+    address: listing.address,
+    city: listing.city,
+    state: listing.state,
+    zipCode: listing.zipCode,
+    buyerName: counter.buyerName,
+    offerDate: formatDate(countered.createdAt),
+    counterNumber: String(counterNumber),
+    versionNumber: String(counter.versionNumber),
+    date: formatDate(generatedAt),
+    respondBy: formatDate(respondBy),
+    otherCounters: String(otherCounters),
+  };
+  const fill = (text: string) => fillTemplate(text, values);
+
+  const pdf = await PdfWriter.create(fill(template.title));
+  pdf.text(fill(template.title), { size: 16, bold: true });
+  pdf.text(`${listing.address}, ${listing.city}, ${listing.state} ${listing.zipCode}`, { muted: true });
+  pdf.text(`Date: ${values.date}`, { muted: true });
+  pdf.rule();
+  pdf.text(fill(template.intro));
+
+  const rows = TERM_ROWS
+    .map(({ label, format }) => ({ label, offered: format(countered), countered: format(counter) }))
+    .filter(row => !template.changesOnly || row.offered !== row.countered);
+  pdf.heading("Terms");
+  if (rows.length === 0) {
+    pdf.text("This counter offer does not change any terms of the offer.");
+  } else {
+    pdf.table(
+      [
+        ["Term", `Offered (version ${countered.versionNumber})`, "Counter offer"],
+        ...rows.map(row => [row.label, row.offered, row.countered]),
+      ],
+      [0.24, 0.38, 0.38],
+    );
+  }
+
+  if (template.clauses.length > 0) {
+    pdf.heading("Conditions");
+    template.clauses.forEach((clause, index) => {
+      pdf.text(`${index + 1}. ${fill(clause)}`);
+      pdf.space(4);
+    });
+  }
+
+  template.signatures.forEach(({ heading, text, signers }) => {
+    pdf.heading(fill(heading));
+    if (text) {
+      pdf.text(fill(text));
+    }
+    signers.forEach(signer => pdf.signatureLine(fill(signer)));
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+// Wording of the counter offer documents the seller sends back to a buyer.
+// Text can use {{placeholders}} (see COUNTER_OFFER_PLACEHOLDERS). Two templates
+// are built in; COUNTER_OFFER_TEMPLATES_DIR can point at a folder of JSON
+// files, one template each, that add templates or replace a built-in one
+// with the same id, e.g. with a brokerage's own wording.
+
+export const counterOfferTemplateSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  title: z.string().min(1),
+  intro: z.string().min(1),
+  // List only the terms the counter changes, rather than every term
+  changesOnly: z.boolean().default(true),
+  clauses: z.array(z.string()).default([]),
+  signatures: z.array(z.object({
+    heading: z.string(),
+    text: z.string().optional(),
+    signers: z.array(z.string()).min(1),
+  })).default([]),
+});
+
+export type CounterOfferTemplate = z.infer<typeof counterOfferTemplateSchema>;
+
+export const COUNTER_OFFER_PLACEHOLDERS = [
+  "address",
+  "city",
+  "state",
+  "zipCode",
+  "buyerName",
+  "offerDate", // when the offer being countered was received
+  "counterNumber", // how many times the seller has countered in this negotiation
+  "versionNumber", // the counter's version in the negotiation thread
+  "date", // when the document was generated
+  "respondBy",
+  "otherCounters", // other buyers the seller is countering at the same time
+] as const;
+
+export type CounterOfferPlaceholder = typeof COUNTER_OFFER_PLACEHOLDERS[number];
+
+const BUILT_IN_TEMPLATES: CounterOfferTemplate[] = [
+  {
+    id: "counter-offer",
+    name: "Counter offer",
+    description: "The seller's answer to a single buyer's offer",
+    title: "Seller Counter Offer No. {{counterNumber}}",
+    intro: "This is a counter offer to the purchase offer dated {{offerDate}} from {{buyerName}} (\"Buyer\") for the property at {{address}}, {{city}}, {{state}} {{zipCode}} (\"Property\"). Seller accepts the offer subject to the terms below. Every term of the offer that is not changed here stays the same.",
+    changesOnly: true,
+    clauses: [
+      "Buyer may accept this counter offer only by signing it and delivering it to Seller or Seller's agent by {{respondBy}}. If it is not accepted by then, it is revoked.",
+      "Until Buyer's signed acceptance is delivered, Seller may accept any other offer, which revokes this counter offer.",
+    ],
+    signatures: [
+      { heading: "Seller", signers: ["Seller", "Seller"] },
+      { heading: "Buyer's acceptance", text: "Buyer accepts this counter offer.", signers: ["Buyer", "Buyer"] },
+    ],
+  },
+  {
+    id: "multiple-counter-offer",
+    name: "Multiple counter offer",
+    description: "For when the seller counters more than one buyer at the same time",
+    title: "Seller Multiple Counter Offer No. {{counterNumber}}",
+    intro: "This is a counter offer to the purchase offer dated {{offerDate}} from {{buyerName}} (\"Buyer\") for the property at {{address}}, {{city}}, {{state}} {{zipCode}} (\"Property\"). Seller is countering {{otherCounters}} other offer(s) on the Property at the same time, on the same or different terms. Every term of the offer that is not changed here stays the same.",
+    changesOnly: true,
+    clauses: [
+      "This counter offer does not bind Seller, even once Buyer accepts it, until Seller signs the final acceptance below and it is delivered to Buyer or Buyer's agent.",
+      "Buyer may accept this counter offer only by signing it and delivering it to Seller or Seller's agent by {{respondBy}}. If it is not accepted by then, it is revoked.",
+      "Until Seller's final acceptance is delivered, Seller may accept any other offer, and Buyer may withdraw Buyer's acceptance in writing.",
+    ],
+    signatures: [
+      { heading: "Seller", signers: ["Seller", "Seller"] },
+      { heading: "Buyer's acceptance", text: "Buyer accepts this counter offer.", signers: ["Buyer", "Buyer"] },
+      { heading: "Seller's final acceptance", text: "Seller accepts Buyer's acceptance, which forms a binding contract.", signers: ["Seller", "Seller"] },
+    ],
+  },
+];
+
+/**
+ * The built-in templates, with those in COUNTER_OFFER_TEMPLATES_DIR added. A
+ * file that isn't a valid template stops the server from starting.
+ */
+export function loadCounterOfferTemplates(env: NodeJS.ProcessEnv = process.env): CounterOfferTemplate[] {
+  const templates = new Map(BUILT_IN_TEMPLATES.map(template => [template.id, template]));
+  const dir = env.COUNTER_OFFER_TEMPLATES_DIR;
+  if (!dir) {
+    return Array.from(templates.values());
+  }
+
+  fs.readdirSync(dir)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .forEach(file => {
+      const result = counterOfferTemplateSchema.safeParse(JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")));
+      if (!result.success) {
+        throw new Error(`Invalid counter offer template ${file}: ${result.error.errors.map(error => `${error.path.join(".")} ${error.message}`).join("; ")}`);
+      }
+      templates.set(result.data.id, result.data);
+    });
+  return Array.from(templates.values());
+}
+
+export const counterOfferTemplates = loadCounterOfferTemplates();
+
+export function getCounterOfferTemplate(id: string): CounterOfferTemplate | undefined {
+  return counterOfferTemplates.find(template => template.id === id);
+}
+
+/**
+ * Template text with its {{placeholders}} filled in. Unknown placeholders
+ * are left as they are, so a typo shows up in the document.
+ */
+export function fillTemplate(text: string, values: Record<CounterOfferPlaceholder, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    (COUNTER_OFFER_PLACEHOLDERS as readonly string[]).includes(name)
+      ? values[name as CounterOfferPlaceholder]
+      : placeholder
+  );
+}
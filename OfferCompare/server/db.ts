@@ -0,0 +1,58 @@
+import { createRequire } from "module";
+import pg from "pg";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleNodePg } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export interface DatabaseConnection {
+  db: Database;
+  // node-postgres pool, shared with the session store (not set for the embedded database)
+  pool?: pg.Pool;
+  // Resolves once the database is ready to accept queries
+  ready: Promise<void>;
+}
+
+// URLs such as "pglite://memory" or "pglite:///var/lib/offercompare" select the
+// embedded PGlite database instead of a Postgres server
+const EMBEDDED_PROTOCOL = "pglite:";
+
+/**
+ * Connect to the database described by a DATABASE_URL value
+ */
+export function connectDatabase(databaseUrl: string): DatabaseConnection {
+  if (databaseUrl.startsWith(EMBEDDED_PROTOCOL)) {
+    return connectEmbeddedDatabase(databaseUrl);
+  }
+
+  const pool = new pg.Pool({ connectionString: databaseUrl });
+  const db = drizzleNodePg(pool, { schema });
+
+  return { db, pool, ready: Promise.resolve() };
+}
+
+/**
+ * Start an embedded PGlite database and create the schema in it. Intended for
+ * tests and local runs without a Postgres server; real deployments manage the
+ * schema with `npm run db:push`.
+ */
+function connectEmbeddedDatabase(databaseUrl: string): DatabaseConnection {
+  const location = databaseUrl.slice(EMBEDDED_PROTOCOL.length).replace(/^\/\//, "");
+  const client = location === "" || location === "memory" ? new PGlite() : new PGlite(location);
+  const db = drizzlePglite(client, { schema });
+
+  const ready = (async () => {
+    // drizzle-kit is only needed here, so keep it out of the regular startup path. It's
+    // a regular dependency for this, so production installs can use PGlite too.
+    // Its ESM build cannot be loaded from Node, so go through the CommonJS one.
+    const require = createRequire(import.meta.url);
+    const { pushSchema }: typeof import("drizzle-kit/api") = require("drizzle-kit/api");
+    const { apply } = await pushSchema(schema, drizzlePglite(client));
+    await apply();
+  })();
+
+  return { db, ready };
+}
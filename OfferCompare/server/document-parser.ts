@@ -0,0 +1,392 @@
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import mammoth from "mammoth";
+import WordExtractor from "word-extractor";
+import { createCanvas } from "@napi-rs/canvas";
+import type { PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { recognizeImage } from "./ocr";
+
+// Turns uploaded offer documents into plain text, locally. PDFs keep their
+// page boundaries; Word and text files have no fixed pages, so they come back
+// as a single page. Scanned pages and images go through OCR.
+
+export const DOCUMENT_FORMATS = ["pdf", "docx", "doc", "txt", "image"] as const;
+export type DocumentFormat = typeof DOCUMENT_FORMATS[number];
+
+export interface DocumentPage {
+  pageNumber: number; // 1-based
+  text: string;
+  source: "text" | "ocr";
+  confidence: number | null; // OCR confidence (0-1), null when the text came from the file itself
+}
+
+export interface ParsedDocument {
+  format: DocumentFormat;
+  pages: DocumentPage[];
+  text: string; // every page, separated by form feeds
+  ocrSkipped?: boolean; // parsed with ocr: false, and some pages are scans left empty
+}
+
+export interface ParseOptions {
+  // false leaves scanned pages and images empty instead of reading them with OCR,
+  // which takes seconds per page, so a request can hand them to the extraction queue
+  ocr?: boolean;
+}
+
+export type DocumentParseErrorReason = "unsupported" | "encrypted" | "unreadable" | "empty";
+
+export class DocumentParseError extends Error {
+  constructor(public reason: DocumentParseErrorReason, message: string) {
+    super(message);
+    this.name = "DocumentParseError";
+  }
+}
+
+const PAGE_SEPARATOR = "\f";
+
+// PDF pages with less text than this are treated as scans if they contain images
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Render scanned PDF pages at 216 DPI (PDF units are 1/72 inch) for OCR
+const OCR_RENDER_SCALE = 3;
+
+/**
+ * Work out the format from the file's contents, falling back to the name for
+ * plain text. Extensions and browser MIME types are easy to get wrong.
+ */
+export function detectDocumentFormat(data: Buffer, fileName: string): DocumentFormat | undefined {
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "pdf";
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    || data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+    return "image"; // PNG or JPEG
+  }
+  if (data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    return "docx";
+  }
+  // OLE compound file, used by Word 97-2003 (and by password-protected .docx)
+  if (data.subarray(0, 8).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]))) {
+    return "doc";
+  }
+  if (path.extname(fileName).toLowerCase() === ".txt" && !data.includes(0)) {
+    return "txt";
+  }
+  return undefined;
+}
+
+/**
+ * MIME type to serve a document with, from its contents. Anything that isn't
+ * a supported format is served as a download, never as a web page.
+ */
+export function documentContentType(data: Buffer, fileName: string): string {
+  switch (detectDocumentFormat(data, fileName)) {
+    case "pdf":
+      return "application/pdf";
+    case "image":
+      return data[0] === 0x89 ? "image/png" : "image/jpeg";
+    case "docx":
+      return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+    case "doc":
+      return "application/msword";
+    case "txt":
+      return "text/plain; charset=utf-8";
+    default:
+      return "application/octet-stream";
+  }
+}
+
+/**
+ * How many pages a document has, without reading its text. Word files and
+ * images count as one page. Null when a PDF can't be opened; parsing it
+ * reports why.
+ */
+export async function countDocumentPages(data: Buffer, format: DocumentFormat): Promise<number | null> {
+  switch (format) {
+    case "pdf": {
+      const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+      try {
+        const pdf = await pdfjs.getDocument({ data: new Uint8Array(data), isEvalSupported: false, verbosity: 0 }).promise;
+        const pageCount = pdf.numPages;
+        await pdf.destroy();
+        return pageCount;
+      } catch (err) {
+        return null;
+      }
+    }
+    case "txt":
+      return data.toString("utf8").split(PAGE_SEPARATOR).length;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Extract the text of a PDF, DOCX, DOC, TXT, PNG or JPEG file
+ */
+export async function parseDocument(filePath: string, fileName = path.basename(filePath), options: ParseOptions = {}): Promise<ParsedDocument> {
+  return parseDocumentData(await fs.promises.readFile(filePath), fileName, options);
+}
+
+/**
+ * Extract the text of a document that is already in memory, e.g. from the document store
+ */
+export async function parseDocumentData(data: Buffer, fileName: string, { ocr = true }: ParseOptions = {}): Promise<ParsedDocument> {
+  const format = detectDocumentFormat(data, fileName);
+
+  let pages: Omit<DocumentPage, "pageNumber">[];
+  switch (format) {
+    case "pdf":
+      pages = await parsePdf(data, ocr);
+      break;
+    case "docx":
+      pages = [textPage(await parseDocx(data))];
+      break;
+    case "doc":
+      pages = [textPage(await parseDoc(data))];
+      break;
+    case "txt":
+      pages = data.toString("utf8").split(PAGE_SEPARATOR).map(textPage);
+      break;
+    case "image": {
+      const unreadable = "This image could not be read. It may be damaged.";
+      // Tesseract's decoder takes the whole process down on a damaged image, so it only gets intact ones
+      if (!await isIntactImage(data)) {
+        throw new DocumentParseError("unreadable", unreadable);
+      }
+      pages = [ocr ? await readImage(data, unreadable) : unreadOcrPage()];
+      break;
+    }
+    default:
+      throw new DocumentParseError("unsupported", "Unsupported file type. Upload a PDF, Word (.docx or .doc), text or image file.");
+  }
+
+  const cleanedPages = pages.map((page, index) => ({ pageNumber: index + 1, ...page, text: cleanText(page.text) }));
+  // Pages that weren't read yet may still have text
+  const ocrSkipped = !ocr && pages.some(page => page.source === "ocr");
+  if (!ocrSkipped && cleanedPages.every(page => page.text === "")) {
+    throw new DocumentParseError("empty", "No text could be found in this document.");
+  }
+
+  return {
+    format,
+    pages: cleanedPages,
+    text: cleanedPages.map(page => page.text).join(PAGE_SEPARATOR),
+    ...(ocrSkipped && { ocrSkipped }),
+  };
+}
+
+function textPage(text: string): Omit<DocumentPage, "pageNumber"> {
+  return { text, source: "text", confidence: null };
+}
+
+// OCR an image. Tesseract throws on images that are damaged past their header.
+async function readImage(image: Buffer, unreadableMessage: string): Promise<Omit<DocumentPage, "pageNumber">> {
+  let result;
+  try {
+    result = await recognizeImage(image);
+  } catch (err) {
+    throw new DocumentParseError("unreadable", unreadableMessage);
+  }
+  return { text: result.text, source: "ocr", confidence: result.confidence };
+}
+
+// A scanned page left for OCR later
+function unreadOcrPage(): Omit<DocumentPage, "pageNumber"> {
+  return { text: "", source: "ocr", confidence: null };
+}
+
+async function parsePdf(data: Buffer, ocr: boolean): Promise<Omit<DocumentPage, "pageNumber">[]> {
+  // The legacy build runs on Node without a DOM
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      disableFontFace: true,
+      verbosity: 0,
+    }).promise;
+  } catch (err) {
+    if (err instanceof Error && err.name === "PasswordException") {
+      throw new DocumentParseError("encrypted", "This PDF is password protected. Remove the password and upload it again.");
+    }
+    throw new DocumentParseError("unreadable", "This PDF could not be read. It may be damaged.");
+  }
+
+  try {
+    const pages: Omit<DocumentPage, "pageNumber">[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const unreadable = `Page ${pageNumber} of this PDF could not be read. It may be damaged.`;
+      let page: PDFPageProxy;
+      let text = "";
+      let scanned: boolean;
+      try {
+        page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        for (const item of content.items) {
+          if ("str" in item) {
+            text += item.str + (item.hasEOL ? "\n" : "");
+          }
+        }
+        // A page that is one big picture is a scan, so read it with OCR instead
+        scanned = text.replace(/\s/g, "").length < MIN_TEXT_LAYER_CHARS && await hasImages(page, pdfjs.OPS);
+      } catch (err) {
+        throw new DocumentParseError("unreadable", unreadable);
+      }
+
+      if (!scanned) {
+        pages.push(textPage(text));
+      } else if (!ocr) {
+        pages.push(unreadOcrPage());
+      } else {
+        let image: Buffer;
+        try {
+          image = await renderPage(page);
+        } catch (err) {
+          throw new DocumentParseError("unreadable", unreadable);
+        }
+        pages.push(await readImage(image, unreadable));
+      }
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function hasImages(page: PDFPageProxy, ops: Record<string, number>): Promise<boolean> {
+  const imageOps = new Set([ops.paintImageXObject, ops.paintInlineImageXObject, ops.paintImageMaskXObject]);
+  const operators = await page.getOperatorList();
+  return operators.fnArray.some(fn => imageOps.has(fn));
+}
+
+async function renderPage(page: PDFPageProxy): Promise<Buffer> {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext("2d");
+
+  // Scans are often transparent around the image, and OCR wants dark text on white
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * Whether a PNG or JPEG file is complete: every PNG chunk is there and its
+ * image data decompresses, or the JPEG's segments run through to its end marker
+ */
+async function isIntactImage(data: Buffer): Promise<boolean> {
+  return data[0] === 0x89 ? isIntactPng(data) : isIntactJpeg(data);
+}
+
+async function isIntactPng(data: Buffer): Promise<boolean> {
+  const imageData: Buffer[] = [];
+  let offset = 8; // after the signature
+  let first = true;
+  while (offset + 12 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString("latin1", offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > data.length || (first && type !== "IHDR")) {
+      return false;
+    }
+    if (type === "IDAT") {
+      imageData.push(data.subarray(offset + 8, offset + 8 + length));
+    }
+    if (type === "IEND") {
+      return imageData.length > 0 && inflates(Buffer.concat(imageData));
+    }
+    first = false;
+    offset = end;
+  }
+  return false;
+}
+
+// Decompress without keeping the output, which can be much larger than the file
+function inflates(compressed: Buffer): Promise<boolean> {
+  return new Promise(resolve => {
+    const inflate = zlib.createInflate();
+    inflate.on("data", () => {});
+    inflate.on("end", () => resolve(true));
+    inflate.on("error", () => resolve(false));
+    inflate.end(compressed);
+  });
+}
+
+function isIntactJpeg(data: Buffer): boolean {
+  let offset = 2; // after the start of image marker
+  while (offset + 1 < data.length) {
+    if (data[offset] !== 0xff) {
+      return false;
+    }
+    const marker = data[offset + 1];
+    if (marker === 0xd9) {
+      return true; // end of image
+    }
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    // Restart markers and TEM have no length
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    if (offset + 4 > data.length) {
+      return false;
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+    if (marker === 0xda) {
+      // Compressed scan data runs until the next marker that isn't a stuffed zero or a restart
+      while (offset + 1 < data.length && !(data[offset] === 0xff && data[offset + 1] !== 0x00 && (data[offset + 1] < 0xd0 || data[offset + 1] > 0xd7))) {
+        offset++;
+      }
+    }
+  }
+  return false;
+}
+
+async function parseDocx(data: Buffer): Promise<string> {
+  try {
+    const result = await mammoth.extractRawText({ buffer: data });
+    return result.value;
+  } catch (err) {
+    throw new DocumentParseError("unreadable", "This Word document could not be read. It may be damaged.");
+  }
+}
+
+async function parseDoc(data: Buffer): Promise<string> {
+  // Password-protected .docx files are stored inside an OLE container
+  if (data.includes(Buffer.from("EncryptedPackage", "utf16le"))) {
+    throw new DocumentParseError("encrypted", "This Word document is password protected. Remove the password and upload it again.");
+  }
+
+  try {
+    const document = await new WordExtractor().extract(data);
+    return [document.getBody(), document.getFootnotes(), document.getEndnotes()].join("\n");
+  } catch (err) {
+    throw new DocumentParseError("unreadable", "This Word document could not be read. It may be damaged or password protected.");
+  }
+}
+
+/**
+ * Normalize line endings and whitespace and drop control characters, keeping
+ * paragraph breaks
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u0000-\u0008\u000b-\u001f\u007f]/g, "")
+    .replace(/\u00a0/g, " ")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
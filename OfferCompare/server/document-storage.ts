@@ -0,0 +1,185 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { Document, InsertDocument, Listing } from "@shared/schema";
+import { storage } from "./storage";
+import { documentContentType } from "./document-parser";
+
+// Where uploaded offer documents are kept. The documents table records which
+// listing and offer each file belongs to; the store only holds the bytes,
+// under a generated key. Which store is used is chosen by config:
+//   DOCUMENT_STORAGE=local  files in DOCUMENT_STORAGE_DIR (./uploads by default)
+//   DOCUMENT_STORAGE=s3     objects in S3_BUCKET on AWS or any S3-compatible
+//                           server such as MinIO (S3_ENDPOINT)
+
+export interface DocumentStore {
+  name: string; // shown in logs, e.g. "local" or "s3"
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The stored file for a document is gone
+ */
+export class DocumentNotFoundError extends Error {
+  constructor(public key: string) {
+    super(`Document ${key} was not found`);
+    this.name = "DocumentNotFoundError";
+  }
+}
+
+export class LocalDocumentStore implements DocumentStore {
+  name = "local";
+
+  constructor(private dir: string) {}
+
+  private filePath(key: string): string {
+    const filePath = path.resolve(this.dir, key);
+    // Keys are generated, but never read or write outside the folder
+    if (!filePath.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new DocumentNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+}
+
+interface S3DocumentStoreOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string; // for S3-compatible servers, e.g. http://localhost:9000 for MinIO
+  accessKeyId?: string; // the AWS default credential chain when not set
+  secretAccessKey?: string;
+  forcePathStyle?: boolean; // MinIO needs bucket-in-path URLs
+}
+
+export class S3DocumentStore implements DocumentStore {
+  name = "s3";
+  private client: S3Client;
+  private bucket: string;
+
+  constructor({ bucket, region, endpoint, accessKeyId, secretAccessKey, forcePathStyle }: S3DocumentStoreOptions) {
+    this.bucket = bucket;
+    this.client = new S3Client({
+      region,
+      endpoint,
+      forcePathStyle,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return Buffer.from(await object.Body!.transformToByteArray());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        throw new DocumentNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Create the document store selected by DOCUMENT_STORAGE
+ */
+export function createDocumentStore(env: NodeJS.ProcessEnv = process.env): DocumentStore {
+  const name = env.DOCUMENT_STORAGE || "local";
+
+  switch (name) {
+    case "local":
+      return new LocalDocumentStore(env.DOCUMENT_STORAGE_DIR || path.join(process.cwd(), "uploads"));
+    case "s3":
+      if (!env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when DOCUMENT_STORAGE is s3");
+      }
+      return new S3DocumentStore({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || "us-east-1",
+        endpoint: env.S3_ENDPOINT || undefined,
+        accessKeyId: env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY || undefined,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === "true",
+      });
+    default:
+      throw new Error(`Unknown document storage "${name}"`);
+  }
+}
+
+export const documentStore = createDocumentStore();
+
+/**
+ * Keep an uploaded file for a listing and record it in the documents table.
+ * `details` attaches it to an offer, as a given kind or a new version.
+ */
+export async function saveDocument(
+  listing: Listing,
+  userId: number,
+  file: { fileName: string; buffer: Buffer },
+  details: Pick<InsertDocument, "offerId" | "kind" | "version" | "previousVersionId" | "terms"> = {},
+): Promise<Document> {
+  const contentType = documentContentType(file.buffer, file.fileName);
+  // Grouped by listing; the file name is only kept in the table
+  const storageKey = `listings/${listing.id}/${randomUUID()}${path.extname(file.fileName).toLowerCase()}`;
+  await documentStore.put(storageKey, file.buffer, contentType);
+
+  return storage.createDocument({
+    ...details,
+    userId,
+    listingId: listing.id,
+    storageKey,
+    fileName: file.fileName,
+    contentType,
+    size: file.buffer.length,
+  });
+}
+
+/**
+ * The stored file of a document
+ */
+export async function readDocument(document: Document): Promise<Buffer> {
+  return documentStore.get(document.storageKey);
+}
+
+/**
+ * Where a document is downloaded from, for the client
+ */
+export function documentUrl(document: Pick<Document, "id">): string {
+  return `/api/documents/${document.id}`;
+}
@@ -0,0 +1,138 @@
+import fs from "fs";
+import path from "path";
+import { Listing } from "@shared/schema";
+import { EXTRACTED_FIELDS, ExtractedField, ExtractedOffer, fieldValuesMatch } from "@shared/extraction";
+import { parseDocument } from "./document-parser";
+import type { ExtractionProvider } from "./extraction-provider";
+import { extractOfferDetails } from "./extractor";
+
+// Measures how accurately offer details are extracted, against a golden set of
+// sample documents and the values they should give. Run it after changing a
+// prompt, a rule or a form template to see what got better or worse.
+
+export const DEFAULT_GOLDEN_SET_DIR = path.join(process.cwd(), "fixtures", "extraction");
+
+// The listing the golden documents are offers on
+export const EVALUATION_LISTING: Listing = {
+  id: 0,
+  userId: 0,
+  address: "1 Main St",
+  city: "Springfield",
+  county: null,
+  state: "CA",
+  zipCode: "90000",
+  price: "600000",
+  loanBalance: null,
+  annualPropertyTax: null,
+  hoaMonthlyDues: null,
+  bedrooms: 3,
+  bathrooms: "2",
+  sqft: null,
+  description: null,
+  status: "active",
+  listedDate: new Date(0),
+  imageUrl: null,
+  createdAt: new Date(0),
+};
+
+export interface GoldenCase {
+  file: string; // in the documents folder next to golden.json
+  expected: Partial<ExtractedOffer>; // fields left out aren't scored
+}
+
+export interface FieldScore {
+  field: ExtractedField;
+  scored: number; // documents with an expected value for the field
+  found: number; // of those, how many the extraction gave a value for
+  correct: number; // values found that match the expected value
+  matched: number; // documents where the extraction matches, including both being empty
+  precision: number | null; // correct / found, null when nothing was found
+  exactMatchRate: number | null; // matched / scored, null when nothing was scored
+}
+
+export interface CaseResult {
+  file: string;
+  extractor: string | null;
+  error: string | null; // the extraction failed outright, so every field counts as empty
+  mismatches: { field: ExtractedField; expected: unknown; actual: unknown }[];
+}
+
+export interface EvaluationReport {
+  cases: CaseResult[];
+  fields: FieldScore[];
+  exactMatchRate: number; // over every scored field of every document
+}
+
+/**
+ * Read golden.json and its documents from `dir`
+ */
+export function loadGoldenSet(dir = DEFAULT_GOLDEN_SET_DIR): GoldenCase[] {
+  const golden = JSON.parse(fs.readFileSync(path.join(dir, "golden.json"), "utf8"));
+  return golden.cases;
+}
+
+function rate(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value == null || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Extract every golden document with `provider` and score the results field by field
+ */
+export async function evaluateExtraction(
+  cases: GoldenCase[],
+  { provider, useTemplates = true, dir = DEFAULT_GOLDEN_SET_DIR }: { provider?: ExtractionProvider; useTemplates?: boolean; dir?: string } = {},
+): Promise<EvaluationReport> {
+  const scores = Object.fromEntries(
+    EXTRACTED_FIELDS.map(field => [field, { field, scored: 0, found: 0, correct: 0, matched: 0 }])
+  ) as Record<ExtractedField, Omit<FieldScore, "precision" | "exactMatchRate">>;
+  const results: CaseResult[] = [];
+
+  for (const goldenCase of cases) {
+    const result: CaseResult = { file: goldenCase.file, extractor: null, error: null, mismatches: [] };
+    let offer: Partial<ExtractedOffer> = {};
+    try {
+      const document = await parseDocument(path.join(dir, "documents", goldenCase.file), goldenCase.file);
+      const output = await extractOfferDetails(document, EVALUATION_LISTING, { provider, useTemplates });
+      offer = output.offer;
+      result.extractor = output.extractor;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    EXTRACTED_FIELDS.forEach(field => {
+      if (!(field in goldenCase.expected)) {
+        return;
+      }
+      const expected = goldenCase.expected[field];
+      const actual = offer[field] ?? null;
+      const matches = fieldValuesMatch(expected, actual);
+      const score = scores[field];
+      score.scored++;
+      if (matches) {
+        score.matched++;
+      } else {
+        result.mismatches.push({ field, expected, actual });
+      }
+      if (!isEmpty(actual)) {
+        score.found++;
+        if (matches) {
+          score.correct++;
+        }
+      }
+    });
+    results.push(result);
+  }
+
+  const fields = EXTRACTED_FIELDS.map(field => {
+    const score = scores[field];
+    return { ...score, precision: rate(score.correct, score.found), exactMatchRate: rate(score.matched, score.scored) };
+  });
+  const scored = fields.reduce((sum, score) => sum + score.scored, 0);
+  const matched = fields.reduce((sum, score) => sum + score.matched, 0);
+
+  return { cases: results, fields, exactMatchRate: rate(matched, scored) ?? 0 };
+}
@@ -0,0 +1,76 @@
+import { FieldCitation, FieldEvidence } from "@shared/extraction";
+import type { ParsedDocument } from "./document-parser";
+
+// Checks the citations an extractor gives for each field against the document
+// itself. A value whose quote can't be found on the page is treated as a guess.
+
+// Highest confidence a field can have when its quote isn't in the document
+const UNVERIFIED_CONFIDENCE_CAP = 0.4;
+
+// What an extractor reports about one field
+export interface ClaimedEvidence {
+  confidence?: number | null; // 0-1
+  pageNumber?: number | null;
+  quote?: string | null;
+}
+
+/**
+ * Position of `quote` in `text`, ignoring case and differences in whitespace
+ */
+export function locateQuote(text: string, quote: string): { start: number; end: number } | undefined {
+  const words = quote.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) {
+    return undefined;
+  }
+
+  const match = new RegExp(words.join("\\s+"), "i").exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : undefined;
+}
+
+/**
+ * Confidence and citation for a field, checked against the document. Looks on
+ * the claimed page first, then on every other page. OCR confidence of the page
+ * the quote is on lowers the field's confidence.
+ */
+export function verifyEvidence(document: ParsedDocument, claimed: ClaimedEvidence | undefined, hasValue: boolean): FieldEvidence {
+  if (!hasValue || !claimed) {
+    return { confidence: 0, citation: null };
+  }
+
+  const confidence = clamp(claimed.confidence ?? 0);
+  const quote = claimed.quote?.trim();
+  if (!quote) {
+    return { confidence: Math.min(confidence, UNVERIFIED_CONFIDENCE_CAP), citation: null };
+  }
+
+  const pages = [
+    ...document.pages.filter(page => page.pageNumber === claimed.pageNumber),
+    ...document.pages.filter(page => page.pageNumber !== claimed.pageNumber),
+  ];
+  for (const page of pages) {
+    const span = locateQuote(page.text, quote);
+    if (span) {
+      const citation: FieldCitation = { pageNumber: page.pageNumber, quote: page.text.slice(span.start, span.end), ...span };
+      const pageConfidence = page.source === "ocr" ? page.confidence ?? 0 : 1;
+      return { confidence: round(confidence * pageConfidence), citation };
+    }
+  }
+
+  // Keep what the extractor claimed so the agent can look for it, but flag it
+  const citation: FieldCitation | null = claimed.pageNumber != null
+    ? { pageNumber: claimed.pageNumber, quote, start: null, end: null }
+    : null;
+  return { confidence: Math.min(confidence, UNVERIFIED_CONFIDENCE_CAP), citation };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function clamp(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
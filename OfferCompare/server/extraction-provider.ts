@@ -0,0 +1,28 @@
+import { Listing } from "@shared/schema";
+import { ExtractedOffer, ExtractionEvidence, ExtractionFailureReason, FormTerms } from "@shared/extraction";
+import type { ParsedDocument } from "./document-parser";
+
+// The contract every way of reading offer details out of a document follows.
+// Which provider runs is chosen by config in extractor.ts.
+
+export interface OfferExtraction {
+  offer: ExtractedOffer;
+  evidence: ExtractionEvidence; // confidence and source of each field
+  form?: FormTerms; // only from form templates
+}
+
+export interface ExtractionProvider {
+  name: string; // shown in logs, e.g. "openai" or "rules"
+  extract(document: ParsedDocument, listing: Listing): Promise<OfferExtraction>;
+}
+
+/**
+ * Extraction that produced nothing usable. Retryable failures, like a timeout
+ * or a rate limit, are tried again by the extraction queue.
+ */
+export class ExtractionError extends Error {
+  constructor(public reason: ExtractionFailureReason, public retryable: boolean, message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
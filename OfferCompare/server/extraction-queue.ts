@@ -0,0 +1,195 @@
+import { DocumentExtraction, InsertDocumentExtraction } from "@shared/schema";
+import { ExtractionResult, extractionStatusFor } from "@shared/extraction";
+import { calculateNetSheet, netSheetInputFor } from "@shared/net-sheet";
+import { storage } from "./storage";
+import { DocumentParseError, ParsedDocument, parseDocumentData } from "./document-parser";
+import { DocumentNotFoundError, readDocument } from "./document-storage";
+import { ExtractionError } from "./extraction-provider";
+import { extractOfferDetails } from "./extractor";
+
+// Runs document extractions and retries the ones that failed for a temporary
+// reason. Queued extractions live in storage, so a restart picks them up again.
+
+// $2.50 per document extraction (more expensive than manual entry), only charged when offer details were found
+export const DOCUMENT_EXTRACTION_PRICE = 2.50;
+
+export const MAX_EXTRACTION_ATTEMPTS = 3;
+
+// How long to wait after each failed attempt before trying again
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000];
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+/**
+ * Read an extraction's document back from the document store
+ */
+export async function readExtractionDocument(extraction: DocumentExtraction): Promise<ParsedDocument> {
+  const document = await storage.getDocument(extraction.documentId);
+  if (!document) {
+    throw new DocumentNotFoundError(`document ${extraction.documentId}`);
+  }
+  return parseDocumentData(await readDocument(document), extraction.fileName);
+}
+
+/**
+ * Make one attempt at a queued extraction and record the outcome. The
+ * extraction is claimed first, so it's skipped when another run already
+ * took it or it has finished since it was queued. Pass the parsed document
+ * when the caller already has it, otherwise the stored file is read again.
+ * Temporary failures are queued for another attempt until
+ * MAX_EXTRACTION_ATTEMPTS is reached.
+ */
+export async function runExtraction(id: number, parsed?: ParsedDocument): Promise<DocumentExtraction | undefined> {
+  const extraction = await storage.getDocumentExtraction(id);
+  if (!extraction) {
+    return undefined;
+  }
+
+  const claimed = await storage.claimDocumentExtraction(id, "queued", {
+    status: "processing",
+    attempts: extraction.attempts + 1,
+    nextAttemptAt: null,
+  });
+  if (!claimed) {
+    return storage.getDocumentExtraction(id);
+  }
+  return attemptExtraction(claimed, parsed);
+}
+
+/**
+ * Create an extraction for a document that was just uploaded and make the
+ * first attempt right away. It's created as processing, so a queue pass
+ * running meanwhile never sees it as due.
+ */
+export async function startExtraction(details: InsertDocumentExtraction, parsed: ParsedDocument): Promise<DocumentExtraction> {
+  const extraction = await storage.createDocumentExtraction({ ...details, status: "processing", attempts: 1 });
+  return await attemptExtraction(extraction, parsed) ?? extraction;
+}
+
+// One attempt at an extraction this run has claimed
+async function attemptExtraction(extraction: DocumentExtraction, parsed?: ParsedDocument): Promise<DocumentExtraction | undefined> {
+  const { id, attempts } = extraction;
+
+  try {
+    const listing = await storage.getListing(extraction.listingId);
+    if (!listing) {
+      throw new Error(`Listing ${extraction.listingId} not found`);
+    }
+
+    const document = parsed ?? await readExtractionDocument(extraction);
+    const { offer, evidence, form, extractor } = await extractOfferDetails(document, listing);
+
+    // Itemize the seller's costs to get net proceeds, if the document states a price
+    const netSheet = offer.price != null
+      ? calculateNetSheet(netSheetInputFor({ ...offer, price: offer.price, closingDate: form?.closeDate }, listing))
+      : null;
+    const result: ExtractionResult = {
+      extractor,
+      offer,
+      evidence,
+      form: form ?? null,
+      netSheet,
+      document: {
+        format: document.format,
+        pageCount: document.pages.length,
+        // Which pages were scanned, and how well OCR could read them
+        pages: document.pages.map(({ pageNumber, source, confidence }) => ({ pageNumber, source, confidence })),
+      },
+      pageText: document.pages.map(page => page.text),
+    };
+
+    const status = extractionStatusFor(offer);
+    if (status === "failed") {
+      return storage.updateDocumentExtraction(id, { status, failureReason: "no_offer_found", result });
+    }
+
+    // Bill once, only for extractions that found something
+    const usageEventId = extraction.usageEventId ?? (await storage.createUsageEvent({
+      userId: extraction.userId,
+      eventType: "document_extraction",
+      amount: DOCUMENT_EXTRACTION_PRICE
+    })).id;
+    return storage.updateDocumentExtraction(id, { status, failureReason: null, result, usageEventId });
+  } catch (error) {
+    console.error(`Document extraction ${id} attempt ${attempts} failed:`, error);
+
+    // Retrying won't bring back a file that can't be read or is gone
+    if (error instanceof DocumentParseError || error instanceof DocumentNotFoundError) {
+      return storage.updateDocumentExtraction(id, { status: "failed", failureReason: "unreadable_document" });
+    }
+
+    // Anything unexpected is treated like a provider hiccup and retried
+    const reason = error instanceof ExtractionError ? error.reason : "provider_error";
+    const retryable = error instanceof ExtractionError ? error.retryable : true;
+    if (!retryable || attempts >= MAX_EXTRACTION_ATTEMPTS) {
+      return storage.updateDocumentExtraction(id, { status: "failed", failureReason: reason });
+    }
+
+    const delay = RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1];
+    const queued = await storage.updateDocumentExtraction(id, {
+      status: "queued",
+      failureReason: reason,
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+    await scheduleExtractionQueue();
+    return queued;
+  }
+}
+
+/**
+ * Set the timer for the next queued extraction that is due
+ */
+export async function scheduleExtractionQueue(): Promise<void> {
+  // The running pass schedules the next one when it finishes
+  if (running) {
+    return;
+  }
+
+  clearTimeout(timer);
+  timer = undefined;
+
+  const queued = await storage.getDocumentExtractionsByStatus(["queued"]);
+  if (queued.length === 0) {
+    return;
+  }
+
+  const nextAttemptAt = Math.min(...queued.map(extraction => extraction.nextAttemptAt?.getTime() ?? 0));
+  timer = setTimeout(() => {
+    processDueExtractions().catch(err => console.error("Extraction queue failed:", err));
+  }, Math.max(0, nextAttemptAt - Date.now()));
+  // Don't keep the process alive just for retries
+  timer.unref();
+}
+
+/**
+ * Resume the queue after a restart. Attempts that were cut short are tried again.
+ */
+export async function startExtractionQueue(): Promise<void> {
+  const interrupted = await storage.getDocumentExtractionsByStatus(["processing"]);
+  await Promise.all(interrupted.map(extraction =>
+    storage.updateDocumentExtraction(extraction.id, { status: "queued", nextAttemptAt: new Date() })
+  ));
+  await scheduleExtractionQueue();
+}
+
+// One extraction at a time, oldest first
+async function processDueExtractions(): Promise<void> {
+  timer = undefined;
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    const now = Date.now();
+    const due = (await storage.getDocumentExtractionsByStatus(["queued"]))
+      .filter(extraction => (extraction.nextAttemptAt?.getTime() ?? 0) <= now);
+    for (const extraction of due) {
+      await runExtraction(extraction.id);
+    }
+  } finally {
+    running = false;
+  }
+  await scheduleExtractionQueue();
+}
@@ -0,0 +1,111 @@
+import { Listing } from "@shared/schema";
+import type { ParsedDocument } from "./document-parser";
+import { ExtractionError, ExtractionProvider, OfferExtraction } from "./extraction-provider";
+import { OpenAIExtractionProvider } from "./openai";
+import { RuleBasedExtractionProvider } from "./rule-extraction";
+import { extractWithTemplate, recognizeForm } from "./template-extraction";
+
+// Picks the extraction provider from config:
+//   EXTRACTION_PROVIDER=openai             OpenAI, with OPENAI_API_KEY (the default)
+//   EXTRACTION_PROVIDER=openai-compatible  any server with the OpenAI API, e.g. a local model
+//                                          or the mock LLM server, at EXTRACTION_BASE_URL
+//   EXTRACTION_PROVIDER=rules              the built-in rules, no model at all
+// EXTRACTION_MODEL overrides the model name, and EXTRACTION_API_KEY is sent to
+// OpenAI-compatible servers that want one.
+
+export const EXTRACTION_PROVIDERS = ["openai", "openai-compatible", "rules"] as const;
+
+export type ExtractionProviderName = typeof EXTRACTION_PROVIDERS[number];
+
+// Placeholder key some setups use when no OpenAI key is configured
+const DUMMY_API_KEY = "sk-dummy-key";
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+/**
+ * A provider that is missing its config. Fails every extraction, so offers
+ * are entered by hand instead.
+ */
+function notConfigured(name: string, message: string): ExtractionProvider {
+  return {
+    name,
+    async extract() {
+      throw new ExtractionError("not_configured", false, message);
+    },
+  };
+}
+
+/**
+ * What the provider described by `env` is missing, or null when it's ready to use
+ */
+export function extractionConfigProblem(env: NodeJS.ProcessEnv = process.env): string | null {
+  switch (env.EXTRACTION_PROVIDER || "openai") {
+    case "openai":
+      return !env.OPENAI_API_KEY || env.OPENAI_API_KEY === DUMMY_API_KEY ? "OPENAI_API_KEY is not set" : null;
+    case "openai-compatible":
+      return !env.EXTRACTION_BASE_URL || !env.EXTRACTION_MODEL ? "EXTRACTION_BASE_URL and EXTRACTION_MODEL must be set" : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the provider described by `env`
+ */
+export function createExtractionProvider(env: NodeJS.ProcessEnv = process.env): ExtractionProvider {
+  const name = env.EXTRACTION_PROVIDER || "openai";
+  const problem = extractionConfigProblem(env);
+
+  switch (name) {
+    case "openai": {
+      if (problem) {
+        return notConfigured(name, problem);
+      }
+      return new OpenAIExtractionProvider({ name, apiKey: env.OPENAI_API_KEY!, model: env.EXTRACTION_MODEL || DEFAULT_OPENAI_MODEL });
+    }
+    case "openai-compatible": {
+      if (problem) {
+        return notConfigured(name, problem);
+      }
+      return new OpenAIExtractionProvider({
+        name,
+        // Local servers usually ignore the key, but the client needs one
+        apiKey: env.EXTRACTION_API_KEY || "not-needed",
+        baseURL: env.EXTRACTION_BASE_URL,
+        model: env.EXTRACTION_MODEL!,
+      });
+    }
+    case "rules":
+      return new RuleBasedExtractionProvider();
+    default:
+      throw new Error(`Unknown EXTRACTION_PROVIDER "${name}", expected one of ${EXTRACTION_PROVIDERS.join(", ")}`);
+  }
+}
+
+export const extractionProvider = createExtractionProvider();
+
+export interface ExtractorOutput extends OfferExtraction {
+  extractor: string; // the provider or form template that read the document
+}
+
+export interface ExtractOptions {
+  provider?: ExtractionProvider; // the configured provider when not set
+  useTemplates?: boolean; // false sends standard forms to the provider too
+}
+
+/**
+ * Extract offer details from a parsed document, with the confidence and source
+ * of each field. Standard forms with a template are read by their layout, and
+ * only other documents go to the provider.
+ */
+export async function extractOfferDetails(
+  document: ParsedDocument,
+  listing: Listing,
+  { provider = extractionProvider, useTemplates = true }: ExtractOptions = {},
+): Promise<ExtractorOutput> {
+  const template = useTemplates ? recognizeForm(document) : undefined;
+  if (template) {
+    return { ...extractWithTemplate(template, document), extractor: `template:${template.id}` };
+  }
+  return { ...await provider.extract(document, listing), extractor: provider.name };
+}
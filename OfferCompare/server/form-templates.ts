@@ -0,0 +1,107 @@
+import { ContingencyPeriod, FinancingType } from "@shared/extraction";
+
+// Field layouts of the standard purchase agreement forms most offers arrive
+// on. Each value is found by the label the form prints next to it, so known
+// forms can be read without a model. Add a template here to support a new form.
+
+/**
+ * How to find one value on a form. The value pattern is searched in the text
+ * that follows the anchor, and its last capture group that matched is the
+ * value. Without an anchor the whole document is searched.
+ */
+export interface AnchorRule {
+  anchor?: RegExp; // label printed on the form
+  value: RegExp;
+  within?: number; // characters after the anchor to search, 300 when not set
+}
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  identifiers: RegExp[]; // all of them appear on the form
+  buyerName?: AnchorRule;
+  price: AnchorRule;
+  earnestMoney?: AnchorRule;
+  loanAmount?: AnchorRule;
+  loanType?: AnchorRule; // captures the name of the checked loan type
+  allCash?: AnchorRule; // matches when the all-cash box is checked
+  closeDays?: AnchorRule; // days after acceptance
+  closeDate?: AnchorRule;
+  contingencyPeriods: Partial<Record<ContingencyPeriod, AnchorRule>>;
+}
+
+// A checked box, as it comes out of PDF text or OCR
+const CHECKED = String.raw`(?:\[\s*[xX✓✔]\s*\]|☒|☑|■)\s*`;
+const MONEY = String.raw`\$\s*([\d,]+(?:\.\d{2})?)`;
+const DATE = String.raw`((?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4}|\d{1,2}/\d{1,2}/\d{4}|\d{4}-\d{2}-\d{2})`;
+// "17 (or __)" and "__ (if left blank, then 15)" style blanks
+const DAYS_AFTER_ACCEPTANCE = /(\d{1,3})\s*(?:\(or[\s_]*(\d{1,3})?[\s_]*\))?\s*Days\s+After\s+Acceptance/i;
+const DAYS_AFTER_EFFECTIVE_DATE = /(?:(\d{1,3})\s*\(if left blank,?\s+then\s+\d{1,3}\)|\(if left blank,?\s+then\s+(\d{1,3})\))\s*days\s+after\s+(?:the\s+)?Effective\s+Date/i;
+
+const money = new RegExp(MONEY);
+const date = new RegExp(DATE, "i");
+
+// Names of checked loan types on the form, by the financing type they mean
+export const LOAN_TYPE_NAMES: Record<string, FinancingType> = {
+  conventional: "conventional",
+  fha: "fha",
+  va: "va",
+  "seller financing": "seller",
+  "third party financing": "other",
+  "loan assumption": "other",
+  "assumed financing": "other",
+  other: "other",
+};
+
+export const FORM_TEMPLATES: FormTemplate[] = [
+  {
+    id: "car-rpa",
+    name: "California Residential Purchase Agreement (C.A.R. Form RPA)",
+    identifiers: [/CALIFORNIA\s+RESIDENTIAL\s+PURCHASE\s+AGREEMENT/i, /C\.\s*A\.\s*R\.\s+Form\s+RPA/i],
+    buyerName: { anchor: /THIS IS AN OFFER FROM/i, value: /^[\s:]*(.+?)\s*\(\s*["“]?Buyer/i, within: 150 },
+    price: { anchor: /PURCHASE PRICE offered is/i, value: money, within: 200 },
+    earnestMoney: { anchor: /INITIAL DEPOSIT/i, value: money },
+    loanAmount: { anchor: /FIRST LOAN/i, value: money },
+    loanType: { anchor: /FIRST LOAN/i, value: new RegExp(`${CHECKED}(conventional|FHA|VA|seller financing|assumed financing|other)`, "i"), within: 400 },
+    allCash: { value: new RegExp(`${CHECKED}ALL CASH OFFER`, "i") },
+    closeDays: { anchor: /CLOSE OF ESCROW shall occur/i, value: DAYS_AFTER_ACCEPTANCE, within: 120 },
+    closeDate: { anchor: /CLOSE OF ESCROW shall occur on/i, value: new RegExp(`^\\s*(?:\\(date\\)\\s*)?${DATE}`, "i"), within: 60 },
+    contingencyPeriods: {
+      inspection: { anchor: /INVESTIGATION OF PROPERTY/i, value: DAYS_AFTER_ACCEPTANCE, within: 600 },
+      loan: { anchor: /LOAN\s+CONTINGENCY/i, value: DAYS_AFTER_ACCEPTANCE },
+      appraisal: { anchor: /APPRAISAL\s+CONTINGENCY/i, value: DAYS_AFTER_ACCEPTANCE },
+    },
+  },
+  {
+    id: "trec-20",
+    name: "Texas One to Four Family Residential Contract (Resale) (TREC No. 20)",
+    identifiers: [/ONE\s+TO\s+FOUR\s+FAMILY\s+RESIDENTIAL\s+CONTRACT\s*\(RESALE\)/i, /TREC\s+NO\.\s*20-\d+/i],
+    buyerName: { anchor: /PARTIES:/i, value: /\band\s+(.+?)\s*\(\s*Buyer\s*\)/i },
+    price: { anchor: /Sales\s+Price\s*\(Sum\s+of\s+A\s+and\s+B\)/i, value: money, within: 80 },
+    earnestMoney: { anchor: /EARNEST\s+MONEY/i, value: new RegExp(`${MONEY}\\s*as\\s+earnest\\s+money`, "i"), within: 400 },
+    loanAmount: { anchor: /Sum\s+of\s+all\s+financing/i, value: money },
+    loanType: { anchor: /Sum\s+of\s+all\s+financing/i, value: new RegExp(`${CHECKED}(Third Party Financing|Loan Assumption|Seller Financing)`, "i") },
+    closeDate: { anchor: /closing\s+of\s+the\s+sale\s+will\s+be\s+on\s+or\s+before/i, value: date, within: 60 },
+    contingencyPeriods: {
+      // The option period is Texas' inspection period
+      inspection: { anchor: /unrestricted\s+right\s+to\s+terminate/i, value: /within\s+(\d{1,3})\s+days\s+after\s+the\s+effective\s+date/i },
+      loan: { anchor: /Buyer\s+Approval/i, value: /within\s+(\d{1,3})\s+days\s+after\s+the\s+effective\s+date/i, within: 400 },
+    },
+  },
+  {
+    id: "fr-bar-as-is",
+    name: "Florida \"AS IS\" Residential Contract for Sale and Purchase (FR/BAR AS IS)",
+    identifiers: [/["“]?AS\s+IS["”]?\s+Residential\s+Contract\s+For\s+Sale\s+And\s+Purchase/i, /Florida\s+Realtors/i],
+    buyerName: { anchor: /PARTIES:/i, value: /\band\s+(.+?)\s*\(\s*["“]?Buyer/i },
+    price: { anchor: /PURCHASE\s+PRICE/i, value: money, within: 120 },
+    earnestMoney: { anchor: /Initial\s+deposit/i, value: money },
+    loanAmount: { anchor: /\(c\)\s*Financing:/i, value: money, within: 200 },
+    loanType: { anchor: /obtaining\s+approval\s+of\s+a/i, value: new RegExp(`${CHECKED}(conventional|FHA|VA|other)`, "i"), within: 150 },
+    allCash: { value: new RegExp(`${CHECKED}Buyer\\s+will\\s+pay\\s+cash`, "i") },
+    closeDate: { value: new RegExp(`${DATE}\\s*\\(\\s*["“]?Closing Date`, "i") },
+    contingencyPeriods: {
+      inspection: { value: new RegExp(`${DAYS_AFTER_EFFECTIVE_DATE.source}\\s*\\(\\s*["“]?Inspection Period`, "i") },
+      loan: { value: new RegExp(`${DAYS_AFTER_EFFECTIVE_DATE.source}\\s*\\(\\s*["“]?Loan Approval Period`, "i") },
+    },
+  },
+];
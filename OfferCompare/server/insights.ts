@@ -0,0 +1,86 @@
+import { Offer, SCORE_CATEGORIES, SCORE_CATEGORY_LABELS, ScoreBreakdown } from "@shared/schema";
+
+// The written analysis of a listing's offers, shown next to the offer table
+// and printed in the listing report
+
+export interface ListingInsights {
+  recommendation: string;
+  riskAssessment: string | null;
+  netProceedsComparison: string | null;
+  negotiationOpportunities: string | null;
+  scores: {
+    offerId: number;
+    buyerName: string;
+    overallScore: number | null;
+    scoreBreakdown: ScoreBreakdown | null;
+  }[];
+}
+
+/**
+ * Recommendation, risk, net proceeds and negotiation notes for the offers on
+ * a listing, based on their stored scores
+ */
+export function buildListingInsights(offers: Offer[]): ListingInsights {
+  if (offers.length === 0) {
+    return {
+      recommendation: "No offers to analyze yet",
+      riskAssessment: null,
+      netProceedsComparison: null,
+      negotiationOpportunities: null,
+      scores: []
+    };
+  }
+
+  // Simple analysis based on priorities
+  let bestOffer = offers[0];
+  let lowestRiskOffer = offers[0];
+  let highestNetProceedsOffer = offers[0];
+
+  for (const offer of offers) {
+    if ((offer.overallScore ?? 0) > (bestOffer.overallScore ?? 0)) {
+      bestOffer = offer;
+    }
+
+    if ((offer.riskScore ?? 0) > (lowestRiskOffer.riskScore ?? 0)) {
+      lowestRiskOffer = offer;
+    }
+
+    if (Number(offer.netProceeds) > Number(highestNetProceedsOffer.netProceeds)) {
+      highestNetProceedsOffer = offer;
+    }
+  }
+
+  // Name the category that contributed most to the best offer's score
+  let recommendation = `Based on your priorities, the offer from ${bestOffer.buyerName} is the strongest overall option with a score of ${bestOffer.overallScore}/100.`;
+  if (bestOffer.scoreBreakdown) {
+    const breakdown = bestOffer.scoreBreakdown;
+    const topCategory = SCORE_CATEGORIES.reduce((top, category) =>
+      breakdown[category].weightedContribution > breakdown[top].weightedContribution ? category : top
+    );
+    recommendation += ` Its biggest strength is ${SCORE_CATEGORY_LABELS[topCategory].toLowerCase()}, which contributes ${Math.round(breakdown[topCategory].weightedContribution)} points.`;
+  }
+
+  let netProceedsComparison = `The ${highestNetProceedsOffer.buyerName} offer provides the highest net proceeds at $${Number(highestNetProceedsOffer.netProceeds).toLocaleString()}`;
+  // A single offer has nothing to be compared with
+  if (offers.length > 1) {
+    const nextBestNetProceeds = Math.max(
+      ...offers.filter(offer => offer.id !== highestNetProceedsOffer.id).map(offer => Number(offer.netProceeds))
+    );
+    const difference = Number(highestNetProceedsOffer.netProceeds) - nextBestNetProceeds;
+    netProceedsComparison += `, which is ${difference > 0 ? '$' + difference.toLocaleString() + ' more' : '$' + (-difference).toLocaleString() + ' less'} than the next best offer`;
+  }
+
+  return {
+    recommendation,
+    riskAssessment: `The ${lowestRiskOffer.buyerName} offer has the lowest risk with ${(lowestRiskOffer.contingencies as string[]).length} contingencies. Consider this option if certainty of closing is your highest priority.`,
+    netProceedsComparison: netProceedsComparison + ".",
+    negotiationOpportunities: "Consider asking buyers to reduce contingencies or improve their offer price to strengthen their position.",
+    // The same stored scores the offer table and charts display
+    scores: offers.map(offer => ({
+      offerId: offer.id,
+      buyerName: offer.buyerName,
+      overallScore: offer.overallScore,
+      scoreBreakdown: offer.scoreBreakdown
+    }))
+  };
+}
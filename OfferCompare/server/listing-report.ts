@@ -0,0 +1,175 @@
+import { Listing, ListingPriorities, Offer, SCORE_CATEGORIES, SCORE_CATEGORY_LABELS } from "@shared/schema";
+import { calculateNetSheet, netSheetInputFor } from "@shared/net-sheet";
+import { OFFER_STATUS_LABELS, isOfferStatus } from "@shared/offer-status";
+import { ListingInsights } from "./insights";
+import { weightsFor } from "./scoring";
+import { CHART_COLORS, PdfWriter } from "./pdf-writer";
+
+// The printed comparison of a listing's offers that the seller signs off on:
+// the ranked offers, the priorities they were scored with, charts like the
+// ones on the listing page, the written analysis and a net sheet per offer.
+
+export interface ListingReportInput {
+  listing: Listing;
+  offers: Offer[];
+  priorities?: ListingPriorities;
+  insights: ListingInsights;
+  generatedAt?: Date;
+}
+
+const formatMoney = (value: string | number | null | undefined): string =>
+  "$" + Math.round(Number(value ?? 0)).toLocaleString("en-US");
+
+const formatCents = (value: number): string =>
+  "$" + value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: Date | string): string =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+
+const formatClosing = (offer: Offer): string =>
+  offer.closingDate
+    ? formatDate(offer.closingDate)
+    : offer.closingTimelineDays != null ? `${offer.closingTimelineDays} days` : "Not stated";
+
+const statusLabel = (status: string): string => isOfferStatus(status) ? OFFER_STATUS_LABELS[status] : status;
+
+/**
+ * Name of the report file, e.g. "offer-report-12-oak-lane.pdf"
+ */
+export function listingReportFileName(listing: Listing): string {
+  const slug = listing.address.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `offer-report-${slug || listing.id}.pdf`;
+}
+
+export async function renderListingReport({
+  listing,
+  offers,
+  priorities,
+  insights,
+  generatedAt = new Date(),
+}: ListingReportInput): Promise<Buffer> {
+  const address = `${listing.address}, ${listing.city}, ${listing.state} ${listing.zipCode}`;
+  // Best first, the same order as the score the offer table sorts by
+  const ranked = [...offers].sort((a, b) => (b.overallScore ?? 0) - (a.overallScore ?? 0));
+
+  const pdf = await PdfWriter.create(`Offer Comparison Report - ${listing.address}`);
+  pdf.banner("Offer Comparison Report", `${address} · Prepared ${formatDate(generatedAt)}`);
+  pdf.text(
+    `Listed at ${formatMoney(listing.price)} · ${listing.bedrooms} bd / ${Number(listing.bathrooms)} ba`
+    + (listing.sqft ? ` · ${listing.sqft.toLocaleString("en-US")} sq ft` : "")
+    + ` · ${offers.length} offer${offers.length === 1 ? "" : "s"}`,
+    { muted: true },
+  );
+
+  pdf.heading("Recommendation");
+  pdf.text(insights.recommendation);
+
+  if (ranked.length > 0) {
+    pdf.heading("Offers");
+    pdf.table(
+      [
+        ["#", "Buyer", "Price", "Net Proceeds", "Closing", "Contingencies", "Risk", "Score", "Status"],
+        ...ranked.map((offer, index) => [
+          String(index + 1),
+          offer.buyerName + (offer.isCounterOffer ? ` (v${offer.versionNumber})` : ""),
+          formatMoney(offer.price),
+          formatMoney(offer.netProceeds),
+          formatClosing(offer),
+          String(((offer.contingencies as string[] | null) ?? []).length),
+          offer.riskScore != null ? String(offer.riskScore) : "-",
+          offer.overallScore != null ? `${offer.overallScore}/100` : "-",
+          statusLabel(offer.status),
+        ]),
+      ],
+      [0.04, 0.18, 0.11, 0.12, 0.14, 0.14, 0.06, 0.09, 0.12],
+    );
+  }
+
+  const weights = weightsFor(priorities);
+  pdf.heading("Priorities");
+  pdf.text("How much each category counted when the offers were scored, from 0 (not at all) to 10.", { muted: true });
+  pdf.space(4);
+  pdf.table(
+    [["Category", "Weight"], ...SCORE_CATEGORIES.map(category => [SCORE_CATEGORY_LABELS[category], `${weights[category]}/10`])],
+    [0.4, 0.2],
+  );
+
+  if (ranked.length > 0) {
+    pdf.heading("Offer Comparison");
+    pdf.barChart(
+      ranked.map(offer => ({ label: offer.buyerName, values: [Number(offer.price), Number(offer.netProceeds)] })),
+      [{ name: "Offer Price", color: CHART_COLORS[0] }, { name: "Net Proceeds", color: CHART_COLORS[1] }],
+      formatMoney,
+    );
+    pdf.space(6);
+    pdf.text("Overall Score", { bold: true });
+    pdf.barChart(
+      ranked.map(offer => ({ label: offer.buyerName, values: [offer.overallScore ?? 0] })),
+      [{ name: "Overall Score", color: CHART_COLORS[2] }],
+      value => `${value}/100`,
+    );
+
+    pdf.heading("Scores by Category");
+    pdf.text("Each offer's score in a category (0-100, relative to the other offers) and the points it adds to the overall score.", { muted: true });
+    pdf.space(4);
+    pdf.table(
+      [
+        ["Buyer", ...SCORE_CATEGORIES.map(category => SCORE_CATEGORY_LABELS[category])],
+        ...ranked.map(offer => [
+          offer.buyerName,
+          ...SCORE_CATEGORIES.map(category => {
+            const score = offer.scoreBreakdown?.[category];
+            return score
+              ? `${Math.round(score.normalizedScore * 100)} (+${Math.round(score.weightedContribution)} pts)`
+              : "Not scored";
+          }),
+        ]),
+      ],
+      [0.2, 0.16, 0.16, 0.16, 0.16, 0.16],
+    );
+  }
+
+  const analysis = [
+    ["Risk Assessment", insights.riskAssessment],
+    ["Net Proceeds Comparison", insights.netProceedsComparison],
+    ["Negotiation Opportunities", insights.negotiationOpportunities],
+  ].filter((entry): entry is [string, string] => entry[1] != null);
+  if (analysis.length > 0) {
+    pdf.heading("Analysis");
+    analysis.forEach(([title, text]) => {
+      pdf.text(title, { bold: true });
+      pdf.text(text);
+      pdf.space(4);
+    });
+  }
+
+  ranked.forEach(offer => {
+    // Offers from before net sheets were stored get one worked out now
+    const netSheet = offer.netSheet ?? calculateNetSheet(netSheetInputFor({
+      ...offer,
+      price: Number(offer.price),
+      sellerConcessions: Number(offer.sellerConcessions) || null,
+    }, listing));
+    // Roughly the height of the table below, so the sheet stays on one page
+    pdf.heading(`Net Sheet: ${offer.buyerName}`, { keepWith: (netSheet.items.length + 4) * 16 + 30 });
+    pdf.text(`Estimated for closing on ${formatDate(netSheet.closingDate)} using ${netSheet.rule.name} closing costs.`, { muted: true });
+    pdf.space(4);
+    pdf.table(
+      [
+        ["Item", "Note", "Amount"],
+        ["Sale Price", "", formatCents(netSheet.salePrice)],
+        ...netSheet.items.map(item => [item.label, item.note ?? "", `-${formatCents(item.amount)}`]),
+        ["Total Costs", "", `-${formatCents(netSheet.totalCosts)}`],
+        ["Net Proceeds", "", formatCents(netSheet.netProceeds)],
+      ],
+      [0.45, 0.3, 0.25],
+    );
+  });
+
+  pdf.heading("Seller Acknowledgement");
+  pdf.text("I have reviewed the offers, priorities, analysis and estimated net sheets in this report. Net proceeds are estimates and the final figures will come from the settlement statement.");
+  pdf.signatureLine("Seller");
+  pdf.signatureLine("Seller");
+
+  return pdf.save();
+}
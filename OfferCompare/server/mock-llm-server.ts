@@ -0,0 +1,121 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { EXTRACTED_FIELDS } from "@shared/extraction";
+import { documentFromPromptText } from "./openai";
+import { extractWithRules } from "./rule-extraction";
+
+// A stand-in for an OpenAI-compatible chat completions API, so the whole
+// extraction path can run offline. It reads the document back out of the
+// prompt and answers with what the built-in rules find, in the shape the
+// OpenAI provider asks for. Point the app at it with
+//   EXTRACTION_PROVIDER=openai-compatible
+//   EXTRACTION_BASE_URL=http://localhost:4010/v1
+//   EXTRACTION_MODEL=mock
+// The model name picks a scenario: "mock-unavailable" always answers 503 and
+// "mock-invalid" answers with text that isn't JSON.
+
+export interface MockLlmServerOptions {
+  port?: number; // 0 or unset picks a free port
+  failFirst?: number; // answer this many requests with 503 before working normally
+}
+
+export interface MockLlmServer {
+  url: string; // base URL to use as EXTRACTION_BASE_URL
+  requests: number; // chat completion requests received so far
+  close(): Promise<void>;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * The answer the OpenAI provider expects, for the document in `prompt`
+ */
+function answerFor(prompt: string): string {
+  const document = documentFromPromptText(prompt);
+  const { offer, evidence } = extractWithRules(document);
+  const answer: Record<string, unknown> = {};
+  EXTRACTED_FIELDS.forEach(field => {
+    const citation = evidence[field]?.citation;
+    answer[field] = {
+      value: offer[field],
+      confidence: offer[field] != null ? evidence[field]?.confidence ?? 0 : 0,
+      page: citation?.pageNumber ?? null,
+      quote: citation?.quote ?? null,
+    };
+  });
+  return JSON.stringify(answer);
+}
+
+/**
+ * Start the mock server. Resolves once it is listening.
+ */
+export function startMockLlmServer(options: MockLlmServerOptions = {}): Promise<MockLlmServer> {
+  let failuresLeft = options.failFirst ?? 0;
+  const mock: MockLlmServer = {
+    url: "",
+    requests: 0,
+    close: () => new Promise((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+  };
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const path = (req.url ?? "").split("?")[0];
+
+      if (req.method === "GET" && path === "/v1/models") {
+        return sendJson(res, 200, { object: "list", data: [{ id: "mock", object: "model", owned_by: "mock" }] });
+      }
+
+      if (req.method !== "POST" || path !== "/v1/chat/completions") {
+        return sendJson(res, 404, { error: { message: `No route for ${req.method} ${path}` } });
+      }
+
+      mock.requests++;
+      const body = JSON.parse(await readBody(req));
+      const model: string = body.model ?? "mock";
+
+      if (model === "mock-unavailable" || failuresLeft > 0) {
+        failuresLeft = Math.max(0, failuresLeft - 1);
+        return sendJson(res, 503, { error: { message: "Mock LLM server is unavailable", type: "server_error" } });
+      }
+
+      const prompt = (body.messages ?? [])
+        .filter((message: { role: string }) => message.role === "user")
+        .map((message: { content: string }) => message.content)
+        .join("\n");
+      const content = model === "mock-invalid" ? "I couldn't find an offer in this document." : answerFor(prompt);
+
+      sendJson(res, 200, {
+        id: `chatcmpl-mock-${mock.requests}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content } }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      });
+    } catch (error) {
+      sendJson(res, 400, { error: { message: error instanceof Error ? error.message : "Bad request" } });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      mock.url = `http://127.0.0.1:${port}/v1`;
+      resolve(mock);
+    });
+  });
+}
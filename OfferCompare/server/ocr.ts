@@ -0,0 +1,54 @@
+import { createRequire } from "module";
+import { createWorker, OEM, type Worker } from "tesseract.js";
+
+// Local OCR for scanned offers. Tesseract runs in WebAssembly on the CPU and
+// the English model ships with @tesseract.js-data/eng, so nothing is sent
+// anywhere or downloaded at runtime.
+
+const require = createRequire(import.meta.url);
+const { langPath } = require("@tesseract.js-data/eng") as { langPath: string };
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-1, Tesseract's mean word confidence for the image
+}
+
+let workerPromise: Promise<Worker> | undefined;
+
+// Starting a worker loads the model, so one is created on first use and reused
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker("eng", OEM.LSTM_ONLY, {
+      langPath,
+      gzip: true,
+      cacheMethod: "none",
+    }).catch(err => {
+      workerPromise = undefined;
+      throw err;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Recognize the text in a PNG or JPEG image
+ */
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image);
+  return {
+    text: data.text,
+    confidence: Math.round(data.confidence) / 100,
+  };
+}
+
+/**
+ * Stop the OCR worker, e.g. before a script exits
+ */
+export async function terminateOcr(): Promise<void> {
+  if (workerPromise) {
+    const worker = await workerPromise;
+    workerPromise = undefined;
+    await worker.terminate();
+  }
+}
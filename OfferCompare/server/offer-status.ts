@@ -0,0 +1,95 @@
+import { Listing, Offer } from "@shared/schema";
+import { OPEN_OFFER_STATUSES, OfferStatus, canTransitionOffer, isOfferStatus } from "@shared/offer-status";
+import { storage } from "./storage";
+import { rescoreListingOffers } from "./scoring";
+
+export interface OfferStatusChange {
+  offer: Offer;
+  listing: Listing;
+  // Other offers whose status changed as a consequence
+  affectedOffers: Offer[];
+  // Open competing offers that couldn't be moved when an offer was accepted.
+  // A countered offer can't become a backup; the counter to it is moved instead.
+  unchangedOffers: Offer[];
+}
+
+export interface OfferStatusChangeOptions {
+  note?: string;
+  // What happens to the other open offers when one is accepted
+  competingOffers?: "backup" | "rejected";
+}
+
+/**
+ * Move an offer to a new status and record the change. Callers check the
+ * transition with canTransitionOffer first.
+ */
+export async function setOfferStatus(offer: Offer, status: OfferStatus, userId: number, note?: string): Promise<Offer> {
+  const updatedOffer = await storage.updateOfferStatus(offer.id, status);
+  await storage.createOfferStatusEvent({
+    offerId: offer.id,
+    userId,
+    fromStatus: offer.status,
+    toStatus: status,
+    note: note ?? null,
+  });
+  return updatedOffer ?? { ...offer, status };
+}
+
+/**
+ * Change an offer's status along with its effects on the listing:
+ * accepting puts the listing under contract, rejects the other open rounds
+ * of the same negotiation and moves the competing open offers to backup (or
+ * rejects them), and losing the accepted offer puts the listing back on the
+ * market. Only open offers compete, so the listing's offers are rescored.
+ */
+export async function changeOfferStatus(
+  offer: Offer,
+  listing: Listing,
+  status: OfferStatus,
+  userId: number,
+  options: OfferStatusChangeOptions = {}
+): Promise<OfferStatusChange> {
+  const wasAccepted = offer.status === "accepted";
+  const updatedOffer = await setOfferStatus(offer, status, userId, options.note);
+  const affectedOffers: Offer[] = [];
+  const unchangedOffers: Offer[] = [];
+  let updatedListing = listing;
+
+  if (status === "accepted") {
+    const competingStatus = options.competingOffers ?? "backup";
+    const listingOffers = await storage.getOffers(listing.id);
+    const threadIds = new Set((await storage.getOfferHistory(offer.id)).map(o => o.id));
+
+    for (const other of listingOffers) {
+      if (other.id === offer.id || !isOfferStatus(other.status) || !OPEN_OFFER_STATUSES.includes(other.status)) {
+        continue;
+      }
+      // Other rounds of the same negotiation are superseded by the accepted one, not competing
+      if (threadIds.has(other.id)) {
+        affectedOffers.push(await setOfferStatus(other, "rejected", userId, `Version ${offer.versionNumber} was accepted`));
+      } else if (other.status === competingStatus) {
+        continue;
+      } else if (canTransitionOffer(other.status, competingStatus)) {
+        affectedOffers.push(await setOfferStatus(other, competingStatus, userId, "Another offer was accepted"));
+      } else {
+        unchangedOffers.push(other);
+      }
+    }
+
+    if (listing.status === "active") {
+      updatedListing = await storage.updateListing(listing.id, { status: "pending" }) ?? listing;
+    }
+  } else if (wasAccepted && listing.status === "pending") {
+    // The deal fell through, so the listing is available again and the backups stay in line
+    updatedListing = await storage.updateListing(listing.id, { status: "active" }) ?? listing;
+  }
+
+  const rescored = new Map((await rescoreListingOffers(listing.id)).map(o => [o.id, o]));
+  const withScores = (o: Offer) => rescored.get(o.id) ?? o;
+  return {
+    offer: withScores(updatedOffer),
+    listing: updatedListing,
+    affectedOffers: affectedOffers.map(withScores),
+    unchangedOffers: unchangedOffers.map(withScores),
+  };
+}
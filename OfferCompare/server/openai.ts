@@ -1,91 +1,187 @@
 import OpenAI from "openai";
+import { z } from "zod";
 import { Listing } from "@shared/schema";
+import { commissionTermsSchema } from "@shared/commission";
+import { EXTRACTED_FIELDS, ExtractedOffer, ExtractionEvidence } from "@shared/extraction";
+import type { DocumentPage, ParsedDocument } from "./document-parser";
+import { verifyEvidence } from "./extraction-evidence";
+import { ExtractionError, ExtractionProvider, OfferExtraction } from "./extraction-provider";
 
-// Initialize OpenAI API client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || "sk-dummy-key"
+export interface OpenAIProviderOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string; // an OpenAI-compatible server, e.g. a local model; OpenAI itself when not set
+  model: string;
+}
+
+// One field of the model's answer. Anything malformed becomes null rather than failing the whole extraction.
+function extractedFieldSchema<T extends z.ZodTypeAny>(value: T) {
+  return z.object({
+    value: value.nullish().catch(null),
+    confidence: z.number().nullish().catch(null),
+    page: z.number().int().nullish().catch(null),
+    quote: z.string().nullish().catch(null),
+  }).nullish().catch(null);
+}
+
+const extractionResponseSchema = z.object({
+  buyerName: extractedFieldSchema(z.string().min(1)),
+  buyerType: extractedFieldSchema(z.string().min(1)),
+  price: extractedFieldSchema(z.coerce.number().positive()),
+  // Commission terms that don't state their basis are dropped rather than guessed
+  commission: extractedFieldSchema(commissionTermsSchema),
+  closingTimelineDays: extractedFieldSchema(z.coerce.number().int().positive()),
+  contingencies: extractedFieldSchema(z.array(z.string())),
+  notes: extractedFieldSchema(z.string()),
 });
 
-// Types for extraction response
-interface ExtractedOffer {
-  buyerName: string;
-  buyerType: string; // "cash", "first-time", "pre-approved", etc.
-  price: number;
-  agentCommission: number | null;
-  closingTimelineDays: number;
-  contingencies: string[];
-  notes: string;
+/**
+ * Document text for the prompt, one section per page. Pages read with OCR are
+ * marked with their confidence so the model knows which text may be misread.
+ */
+export function documentPromptText(document: ParsedDocument): string {
+  return document.pages
+    .map(page => {
+      const source = page.source === "ocr" ? ` (scanned, OCR confidence ${Math.round((page.confidence ?? 0) * 100)}%)` : "";
+      return `--- Page ${page.pageNumber}${source} ---\n${page.text}`;
+    })
+    .join("\n\n");
 }
 
 /**
- * Extract offer details from document text using OpenAI
+ * The pages of a document as written into the prompt by documentPromptText.
+ * Lets the mock LLM server read the document back out of a request.
  */
-export async function extractOfferDetails(documentText: string, listing: Listing): Promise<ExtractedOffer> {
-  try {
-    // If no API key, return fallback data
-    if (process.env.OPENAI_API_KEY === "sk-dummy-key") {
-      return getFallbackOffer(listing);
-    }
-    
+export function documentFromPromptText(prompt: string): ParsedDocument {
+  const header = /^\s*--- Page (\d+)(?: \(scanned, OCR confidence (\d+)%\))? ---$/gm;
+  const headers = Array.from(prompt.matchAll(header));
+  const pages: DocumentPage[] = headers.map((match, index) => {
+    const end = index + 1 < headers.length ? headers[index + 1].index : prompt.length;
+    const scanned = match[2] !== undefined;
+    return {
+      pageNumber: Number(match[1]),
+      text: prompt.slice((match.index ?? 0) + match[0].length, end).trim(),
+      source: scanned ? "ocr" : "text",
+      confidence: scanned ? Number(match[2]) / 100 : null,
+    };
+  });
+  return { format: "txt", pages, text: pages.map(page => page.text).join("\f") };
+}
+
+/**
+ * Extracts offer details with a chat completion model, from OpenAI or any
+ * server that speaks the same API
+ */
+export class OpenAIExtractionProvider implements ExtractionProvider {
+  name: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async extract(document: ParsedDocument, listing: Listing): Promise<OfferExtraction> {
     const prompt = `
       You are an expert real estate assistant that extracts structured information from real estate offer documents.
       Analyze the following offer document for property at ${listing.address} and extract these key details:
-      
+
       - Buyer's full name
       - Buyer type (cash buyer, first-time homebuyer, pre-approved, etc.)
       - Offer price in dollars
-      - Agent commission percentage or amount (if specified)
+      - Listing agent and buyer agent commission, each as a percentage of the price or a flat dollar amount, plus any bonuses or referral fees (if specified)
       - Closing timeline in days
       - Contingencies (list all that apply: financing, inspection, appraisal, home sale, etc.)
       - Any important notes or special conditions
-      
-      Return the information in a structured JSON format with these fields:
+
+      For every field, also return how confident you are (0 to 1), the page number
+      it appears on and a short quote copied exactly from the document that states
+      it. If the document doesn't state a field, set its value, page and quote to
+      null and its confidence to 0. Never fill in a typical value instead.
+
+      Return the information in a structured JSON format with these fields, each
+      shaped like { "value": ..., "confidence": number, "page": number, "quote": "exact text" }:
       {
-        "buyerName": "Full name of buyer",
-        "buyerType": "Type of buyer",
-        "price": number (without $ or commas),
-        "agentCommission": number or null (percentage as decimal or amount),
-        "closingTimelineDays": number,
-        "contingencies": ["array", "of", "contingencies"],
-        "notes": "Any important notes or conditions"
+        "buyerName": value is the full name of the buyer,
+        "buyerType": value is the type of buyer,
+        "price": value is a number (without $ or commas),
+        "commission": value is null or {
+          "listingSide": { "basis": "percent" or "flat", "amount": number (3 means 3%, or dollars) },
+          "buyerSide": { "basis": "percent" or "flat", "amount": number },
+          "extras": [{ "kind": "bonus" or "referralFee", "description": "what it is for", "basis": "percent" or "flat", "amount": number }]
+        },
+        "closingTimelineDays": value is a number,
+        "contingencies": value is an array of contingencies,
+        "notes": value is any important notes or conditions
       }
-      
+
+      Scanned pages were read with OCR and may contain recognition errors, especially
+      at low confidence. Don't guess at values that are unreadable.
+
       Document text:
-      ${documentText}
+      ${documentPromptText(document)}
     `;
 
-    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [{ role: "user", content: prompt }],
-      response_format: { type: "json_object" }
-    });
+    let content: string | null;
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+        response_format: { type: "json_object" }
+      });
+      content = response.choices[0]?.message.content ?? null;
+    } catch (error) {
+      throw providerError(error);
+    }
 
-    const content = response.choices[0].message.content;
     if (!content) {
-      throw new Error("No content in OpenAI response");
+      throw new ExtractionError("invalid_response", true, `No content in the ${this.name} response`);
     }
 
-    const result = JSON.parse(content);
-    return result;
-  } catch (error) {
-    console.error("Error extracting offer details:", error);
-    // Return fallback data if API call fails
-    return getFallbackOffer(listing);
+    let result: z.infer<typeof extractionResponseSchema>;
+    try {
+      result = extractionResponseSchema.parse(JSON.parse(content));
+    } catch (error) {
+      throw new ExtractionError("invalid_response", true, `Unreadable ${this.name} response: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const offer: ExtractedOffer = {
+      buyerName: result.buyerName?.value ?? null,
+      buyerType: result.buyerType?.value ?? null,
+      price: result.price?.value ?? null,
+      commission: result.commission?.value ?? null,
+      closingTimelineDays: result.closingTimelineDays?.value ?? null,
+      contingencies: result.contingencies?.value ?? null,
+      notes: result.notes?.value ?? null,
+    };
+
+    // Check each quote against the document before trusting the model's confidence
+    const evidence: ExtractionEvidence = {};
+    EXTRACTED_FIELDS.forEach(field => {
+      const claimed = result[field];
+      evidence[field] = verifyEvidence(
+        document,
+        claimed ? { confidence: claimed.confidence, pageNumber: claimed.page, quote: claimed.quote } : undefined,
+        offer[field] != null
+      );
+    });
+
+    return { offer, evidence };
   }
 }
 
 /**
- * Generate fallback offer data when OpenAI is not available
+ * Connection problems, rate limits and server errors are worth retrying. A
+ * rejected key or request will fail the same way next time.
  */
-function getFallbackOffer(listing: Listing): ExtractedOffer {
-  return {
-    buyerName: "Extracted Buyer",
-    buyerType: "pre-approved",
-    price: Number(listing.price) + 10000, // Slightly above listing price
-    agentCommission: 0.06, // 6% is common
-    closingTimelineDays: 30,
-    contingencies: ["financing", "inspection", "appraisal"],
-    notes: "This is fallback data as document extraction failed. Please review document manually."
-  };
+function providerError(error: unknown): ExtractionError {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof OpenAI.APIError && error.status != null) {
+    const retryable = error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+    return new ExtractionError("provider_error", retryable, message);
+  }
+  // No status means the request never got an answer
+  return new ExtractionError("provider_error", true, message);
 }
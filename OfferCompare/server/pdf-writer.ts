@@ -0,0 +1,258 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb } from "pdf-lib";
+
+// Lays out simple text documents, like counter offers and listing reports, on
+// US Letter pages. Text flows onto new pages as needed. Only the standard PDF
+// fonts are used, so nothing has to be embedded.
+
+const PAGE_WIDTH = 612; // 8.5in at 72 points per inch
+const PAGE_HEIGHT = 792; // 11in
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_SPACING = 1.35;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.75, 0.75, 0.75);
+// The app's primary blue, hsl(210, 79%, 46%)
+export const BRAND_COLOR = rgb(0.1, 0.46, 0.82);
+export const CHART_COLORS = [BRAND_COLOR, rgb(0.16, 0.65, 0.45), rgb(0.95, 0.6, 0.1)];
+
+// Characters the standard fonts can't draw, and what to write instead
+const REPLACEMENTS: [RegExp, string][] = [
+  [/[\u2018\u2019]/g, "'"], // curly quotes
+  [/[\u201c\u201d]/g, '"'],
+  [/[\u2013\u2014]/g, "-"], // en and em dashes
+  [/\u2192/g, "->"],
+  [/\u2026/g, "..."],
+];
+
+/**
+ * Text the standard fonts can draw: typographic punctuation is simplified and
+ * anything outside Latin-1 is dropped
+ */
+export function toPdfText(text: string): string {
+  const simplified = REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+  return simplified.replace(/[^\n\x20-\x7e\xa1-\xff]/g, "");
+}
+
+export interface ChartSeries {
+  name: string;
+  color: RGB;
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  muted?: boolean;
+  indent?: number;
+}
+
+export class PdfWriter {
+  private document!: PDFDocument;
+  private page!: PDFPage;
+  private regular!: PDFFont;
+  private bold!: PDFFont;
+  private y = 0;
+
+  private constructor() {}
+
+  static async create(title: string): Promise<PdfWriter> {
+    const writer = new PdfWriter();
+    writer.document = await PDFDocument.create();
+    writer.document.setTitle(toPdfText(title));
+    writer.document.setProducer("OfferCompare");
+    writer.regular = await writer.document.embedFont(StandardFonts.Helvetica);
+    writer.bold = await writer.document.embedFont(StandardFonts.HelveticaBold);
+    writer.addPage();
+    return writer;
+  }
+
+  private addPage() {
+    this.page = this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Start a new page unless `height` more points fit on this one
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    toPdfText(text).split("\n").forEach(paragraph => {
+      let line = "";
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  /**
+   * A paragraph of wrapped text
+   */
+  text(text: string, { size = 10, bold = false, muted = false, indent = 0 }: TextOptions = {}) {
+    const font = bold ? this.bold : this.regular;
+    const lineHeight = size * LINE_SPACING;
+    this.wrap(text, font, size, CONTENT_WIDTH - indent).forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y, size, font, color: muted ? MUTED_COLOR : TEXT_COLOR });
+    });
+  }
+
+  /**
+   * A bold heading, moved to the next page unless `keepWith` points of what
+   * follows it fit under it
+   */
+  heading(text: string, { size = 13, keepWith = 60 }: { size?: number; keepWith?: number } = {}) {
+    this.space(size * 0.6);
+    this.ensureSpace(size * LINE_SPACING + keepWith);
+    this.text(text, { size, bold: true });
+    this.space(4);
+  }
+
+  space(points = 8) {
+    this.y -= points;
+  }
+
+  rule() {
+    this.ensureSpace(12);
+    this.y -= 6;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: RULE_COLOR,
+    });
+    this.y -= 6;
+  }
+
+  /**
+   * Rows of cells, with column widths as fractions of the page width. The
+   * first row is bold when `header` is set.
+   */
+  table(rows: string[][], widths: number[], { size = 9, header = true }: { size?: number; header?: boolean } = {}) {
+    const lineHeight = size * LINE_SPACING;
+    rows.forEach((row, rowIndex) => {
+      const font = header && rowIndex === 0 ? this.bold : this.regular;
+      const cells = row.map((cell, column) => this.wrap(cell, font, size, widths[column] * CONTENT_WIDTH - 6));
+      const height = Math.max(...cells.map(lines => lines.length)) * lineHeight + 4;
+      this.ensureSpace(height);
+
+      let x = MARGIN;
+      cells.forEach((lines, column) => {
+        lines.forEach((line, index) => {
+          this.page.drawText(line, { x, y: this.y - lineHeight * (index + 1), size, font, color: TEXT_COLOR });
+        });
+        x += widths[column] * CONTENT_WIDTH;
+      });
+      this.y -= height;
+      if (header && rowIndex === 0) {
+        this.page.drawLine({
+          start: { x: MARGIN, y: this.y + 2 },
+          end: { x: PAGE_WIDTH - MARGIN, y: this.y + 2 },
+          thickness: 0.5,
+          color: RULE_COLOR,
+        });
+      }
+    });
+  }
+
+  /**
+   * A band across the top of the page with the app's name, a title and a
+   * line under it
+   */
+  banner(title: string, subtitle: string) {
+    const height = 64;
+    this.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - height, width: PAGE_WIDTH, height, color: BRAND_COLOR });
+    this.page.drawText("OfferCompare", { x: MARGIN, y: PAGE_HEIGHT - 26, size: 10, font: this.bold, color: rgb(1, 1, 1) });
+    this.page.drawText(toPdfText(title), { x: MARGIN, y: PAGE_HEIGHT - 48, size: 16, font: this.bold, color: rgb(1, 1, 1) });
+    this.y = PAGE_HEIGHT - height - 8;
+    this.text(subtitle, { muted: true });
+  }
+
+  /**
+   * Horizontal bars, one group per row with a bar for each series. Every bar
+   * is drawn to the same scale, so series should share a unit.
+   */
+  barChart(rows: { label: string; values: number[] }[], series: ChartSeries[], format: (value: number) => string) {
+    const size = 8;
+    const barHeight = 9;
+    const labelWidth = CONTENT_WIDTH * 0.22;
+    const valueWidth = 64;
+    const barsWidth = CONTENT_WIDTH - labelWidth - valueWidth;
+    const max = Math.max(1, ...rows.flatMap(row => row.values));
+
+    // Legend
+    if (series.length > 1) {
+      this.ensureSpace(16);
+      let x = MARGIN + labelWidth;
+      series.forEach(({ name, color }) => {
+        this.page.drawRectangle({ x, y: this.y - 9, width: 8, height: 8, color });
+        this.page.drawText(toPdfText(name), { x: x + 12, y: this.y - 8, size, font: this.regular, color: MUTED_COLOR });
+        x += 24 + this.regular.widthOfTextAtSize(toPdfText(name), size);
+      });
+      this.y -= 16;
+    }
+
+    rows.forEach(({ label, values }) => {
+      this.ensureSpace(values.length * (barHeight + 2) + 6);
+      const top = this.y;
+      this.page.drawText(this.wrap(label, this.regular, size, labelWidth - 6)[0], {
+        x: MARGIN, y: top - barHeight + 1, size, font: this.regular, color: TEXT_COLOR,
+      });
+      values.forEach((value, index) => {
+        const y = top - (index + 1) * (barHeight + 2);
+        const width = Math.max(0, value) / max * barsWidth;
+        this.page.drawRectangle({ x: MARGIN + labelWidth, y, width, height: barHeight, color: series[index].color });
+        this.page.drawText(toPdfText(format(value)), {
+          x: MARGIN + labelWidth + width + 4, y: y + 2, size: size - 1, font: this.regular, color: MUTED_COLOR,
+        });
+      });
+      this.y = top - values.length * (barHeight + 2) - 6;
+    });
+  }
+
+  /**
+   * A line to sign on, with who signs and a date line next to it
+   */
+  signatureLine(label: string) {
+    this.ensureSpace(40);
+    this.y -= 28;
+    const signatureWidth = CONTENT_WIDTH * 0.6;
+    const dateX = MARGIN + signatureWidth + 24;
+    this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: MARGIN + signatureWidth, y: this.y }, thickness: 0.5, color: TEXT_COLOR });
+    this.page.drawLine({ start: { x: dateX, y: this.y }, end: { x: PAGE_WIDTH - MARGIN, y: this.y }, thickness: 0.5, color: TEXT_COLOR });
+    this.page.drawText(toPdfText(label), { x: MARGIN, y: this.y - 11, size: 8, font: this.regular, color: MUTED_COLOR });
+    this.page.drawText("Date", { x: dateX, y: this.y - 11, size: 8, font: this.regular, color: MUTED_COLOR });
+    this.y -= 12;
+  }
+
+  /**
+   * The finished PDF, with page numbers in the footer
+   */
+  async save(): Promise<Buffer> {
+    const pages = this.document.getPages();
+    pages.forEach((page, index) => {
+      const label = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(label, {
+        x: PAGE_WIDTH - MARGIN - this.regular.widthOfTextAtSize(label, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font: this.regular,
+        color: MUTED_COLOR,
+      });
+    });
+    return Buffer.from(await this.document.save());
+  }
+}
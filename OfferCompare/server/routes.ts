@@ -1,34 +1,178 @@
-import type { Express, Request, Response } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
 import { setupStripeRoutes } from "./stripe";
-import { extractOfferDetails } from "./openai";
-import { insertListingSchema, insertOfferSchema, insertListingPrioritiesSchema, insertUsageEventSchema } from "@shared/schema";
-import multer from "multer";
+import { DocumentParseError, parseDocumentData } from "./document-parser";
+import { DocumentNotFoundError, documentUrl, readDocument, saveDocument } from "./document-storage";
+import { readSupportingDocument } from "./supporting-documents";
+import { counterOfferTemplates, getCounterOfferTemplate } from "./counter-offer-templates";
+import { counterOfferFileName, renderCounterOfferDocument } from "./counter-offer-documents";
+import { UploadRejectedError, ValidatedUpload, uploadDocument, uploadDocuments, validateUpload } from "./upload-validation";
+import { readExtractionDocument, runExtraction, scheduleExtractionQueue, startExtraction } from "./extraction-queue";
+import { rescoreListingOffers } from "./scoring";
+import { buildListingInsights } from "./insights";
+import { listingReportFileName, renderListingReport } from "./listing-report";
+import { changeOfferStatus, setOfferStatus } from "./offer-status";
+import { calculateNetSheet, netSheetInputFor } from "@shared/net-sheet";
+import { OFFER_STATUS_ACTIONS, OPEN_OFFER_STATUSES, OfferStatusAction, canTransitionOffer, isOfferStatus } from "@shared/offer-status";
+import { ExtractionStatus, fieldCorrections, isExtractionPending } from "@shared/extraction";
+import { DOCUMENT_KINDS, DocumentKind, TERMS_DOCUMENT_KINDS, combineOfferDocuments } from "@shared/documents";
+import { buildNegotiationThread, counterOfferTermsFrom, latestNegotiationRoundIds, negotiationFieldsFor } from "@shared/negotiation";
+import { Document, DocumentExtraction, InsertOffer, Listing, Offer, insertListingSchema, insertOfferSchema, insertListingPrioritiesSchema, insertUsageEventSchema } from "@shared/schema";
 import { randomUUID } from "crypto";
-import path from "path";
-import fs from "fs";
 import { z } from "zod";
 
-const uploadsDir = path.join(process.cwd(), 'uploads');
-// Ensure uploads directory exists
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
+// Body of POST /api/offers/:id/counter: only the terms that change
+const counterOfferSchema = insertOfferSchema.omit({ listingId: true }).partial();
 
-// Configure multer storage
-const storage_config = multer.diskStorage({
-  destination: function (req, file, cb) {
-    cb(null, uploadsDir);
-  },
-  filename: function (req, file, cb) {
-    const uniquePrefix = randomUUID();
-    cb(null, uniquePrefix + '-' + file.originalname);
-  }
+// Body of PATCH /api/offers/:id: only the terms being corrected
+const updateOfferSchema = insertOfferSchema.omit({ listingId: true }).partial();
+
+// Body of POST /api/extractions/:id/confirm: corrections to what the document said
+const confirmExtractionSchema = insertOfferSchema.omit({ listingId: true }).partial();
+
+// Form fields of POST /api/offers/:id/documents. The kind of a new version
+// defaults to the kind of the document it replaces.
+const offerDocumentUploadSchema = z.object({
+  kind: z.enum(DOCUMENT_KINDS).optional(),
+  replacesDocumentId: z.coerce.number().int().optional(),
+});
+
+// Body of POST /api/offers/:id/counter-document
+const counterDocumentSchema = z.object({
+  templateId: z.string(),
+  respondBy: z.coerce.date().optional(),
+});
+
+// How long the buyer has to answer a counter offer when no date is given
+const DEFAULT_COUNTER_RESPONSE_DAYS = 3;
+
+// Body of the offer status transition endpoints
+const offerStatusChangeSchema = z.object({
+  note: z.string().optional(),
+  // Only used when accepting: what happens to the other open offers
+  competingOffers: z.enum(["backup", "rejected"]).optional(),
 });
 
-const upload = multer({ storage: storage_config });
+// Goes ahead of the upload middleware, so files from signed-out clients are
+// turned away before they are read into memory
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+}
+
+// An extraction's status, plus whatever it found
+function extractionResponse(extraction: DocumentExtraction) {
+  const result = extraction.result;
+  return {
+    id: extraction.id,
+    status: extraction.status,
+    failureReason: extraction.failureReason,
+    attempts: extraction.attempts,
+    nextAttemptAt: extraction.nextAttemptAt,
+    fileName: extraction.fileName,
+    documentId: extraction.documentId,
+    documentUrl: documentUrl({ id: extraction.documentId }),
+    extractor: result?.extractor ?? null,
+    extractedData: result ? { ...result.offer, netProceeds: result.netSheet?.netProceeds ?? null } : null,
+    evidence: result?.evidence ?? null,
+    form: result?.form ?? null,
+    netSheet: result?.netSheet ?? null,
+    document: result?.document ?? null,
+    batchId: extraction.batchId,
+    offerId: extraction.offerId,
+    corrections: extraction.corrections,
+    createdAt: extraction.createdAt,
+  };
+}
+
+/**
+ * Create a new offer on the listing, rescore the listing's offers and bill for it.
+ * Counter offers go through POST /api/offers/:id/counter instead.
+ */
+async function addOfferToListing(listing: Listing, terms: InsertOffer, userId: number): Promise<Offer> {
+  // Itemize the seller's costs to get net proceeds
+  const netSheet = calculateNetSheet(netSheetInputFor(terms, listing));
+  
+  // Create the offer, then rescore it against the other offers on the listing
+  const negotiation = negotiationFieldsFor(undefined, [], terms.authoredBy);
+  const createdOffer = await storage.createOffer(terms, userId, netSheet, negotiation);
+  const rescoredOffers = await rescoreListingOffers(listing.id);
+  
+  // Create usage event for billing
+  await storage.createUsageEvent({
+    userId,
+    eventType: "offer_creation",
+    amount: 1.00 // $1.00 per offer creation
+  });
+  
+  return rescoredOffers.find(o => o.id === createdOffer.id) ?? createdOffer;
+}
+
+// One version of an uploaded document
+function documentVersionResponse(document: Document) {
+  return {
+    id: document.id,
+    fileName: document.fileName,
+    contentType: document.contentType,
+    size: document.size,
+    version: document.version,
+    url: documentUrl(document),
+    createdAt: document.createdAt,
+  };
+}
+
+// An offer's documents, newest version of each with its history, and the
+// offer terms read from all of them together
+async function offerDocumentsResponse(offer: Offer) {
+  const documents = await storage.getDocumentsByOffer(offer.id);
+  const extractions = await storage.getDocumentExtractionsByListing(offer.listingId);
+  // The latest extraction of a document, for contracts and addenda
+  const extractionFor = (documentId: number) =>
+    extractions.filter(extraction => extraction.documentId === documentId).pop();
+
+  const current = documents.filter(document => document.supersededAt == null);
+  const attachments = current.map(document => {
+    const extraction = extractionFor(document.id);
+    const previousVersions = [];
+    let previous = documents.find(candidate => candidate.id === document.previousVersionId);
+    while (previous) {
+      previousVersions.push(documentVersionResponse(previous));
+      const previousVersionId = previous.previousVersionId;
+      previous = documents.find(candidate => candidate.id === previousVersionId);
+    }
+    return {
+      ...documentVersionResponse(document),
+      kind: document.kind,
+      extraction: extraction
+        ? { id: extraction.id, status: extraction.status, failureReason: extraction.failureReason }
+        : null,
+      terms: document.terms,
+      previousVersions,
+    };
+  });
+
+  const combined = combineOfferDocuments(current.map(document => ({
+    documentId: document.id,
+    kind: document.kind as DocumentKind,
+    extraction: extractionFor(document.id)?.result ?? null,
+    terms: document.terms,
+  })));
+
+  return { documents: attachments, combined };
+}
+
+// The offer terms an extraction found, leaving out what the document didn't state
+function extractedOfferTerms(extraction: DocumentExtraction): Record<string, unknown> {
+  const offer = extraction.result?.offer;
+  if (!offer) {
+    return {};
+  }
+  return Object.fromEntries(Object.entries(offer).filter(([, value]) => value != null));
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
@@ -143,31 +287,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have permission to add offers to this listing" });
       }
       
-      // Calculate net proceeds (price - loan balance - commission)
-      const price = Number(validatedData.price);
-      const loanBalance = Number(listing.loanBalance || 0);
+      const offer = await addOfferToListing(listing, validatedData, req.user.id);
+      res.status(201).json(offer);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: err.errors });
+      }
+      res.status(500).json({ message: "Failed to create offer" });
+    }
+  });
+  
+  // Counter an open offer with a new round in its negotiation thread
+  app.post("/api/offers/:id/counter", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const changes = counterOfferSchema.parse(req.body ?? {});
+      const parentOffer = await storage.getOffer(parseInt(req.params.id));
       
-      // Handle commission calculation based on whether it's a dollar amount or percentage
-      let agentCommission = Number(validatedData.agentCommission || 0);
-      // If commission is provided as a percentage (typically < 20), convert to dollar amount
-      if (agentCommission > 0 && agentCommission <= 20) {
-        agentCommission = (price * agentCommission) / 100;
+      if (!parentOffer || parentOffer.deletedAt) {
+        return res.status(404).json({ message: "Offer not found" });
       }
       
-      // Set the calculated net proceeds
-      const offerWithNetProceeds = {
-        ...validatedData,
-        netProceeds: price - loanBalance - agentCommission
-      };
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(parentOffer.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to counter this offer" });
+      }
+      
+      if (!canTransitionOffer(parentOffer.status, "countered")) {
+        return res.status(409).json({ message: `A ${parentOffer.status} offer can't be countered` });
+      }
+      
+      // Terms the counter doesn't change carry over from the offer being countered
+      const counterTerms = insertOfferSchema.parse({
+        ...counterOfferTermsFrom(parentOffer),
+        ...changes,
+        listingId: parentOffer.listingId,
+      });
+      const netSheet = calculateNetSheet(netSheetInputFor(counterTerms, listing));
+      
+      // Version and author come from the negotiation thread, not the client
+      const thread = await storage.getOfferHistory(parentOffer.id);
+      const negotiation = negotiationFieldsFor(parentOffer, thread, changes.authoredBy);
       
-      // Create the offer
-      const offer = await storage.createOffer(offerWithNetProceeds, req.user.id);
+      const createdOffer = await storage.createOffer(counterTerms, req.user.id, netSheet, negotiation);
+      await setOfferStatus(parentOffer, "countered", req.user.id, `Countered with version ${createdOffer.versionNumber}`);
+      
+      const rescoredOffers = await rescoreListingOffers(listing.id);
+      const offer = rescoredOffers.find(o => o.id === createdOffer.id) ?? createdOffer;
       
       // Create usage event for billing
       await storage.createUsageEvent({
         userId: req.user.id,
-        eventType: "offer_creation",
-        amount: 1.00 // $1.00 per offer creation
+        eventType: "counter_offer",
+        amount: 1.00 // $1.00 per counter offer, same as a new offer
       });
       
       res.status(201).json(offer);
@@ -175,7 +351,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: err.errors });
       }
-      res.status(500).json({ message: "Failed to create offer" });
+      res.status(500).json({ message: "Failed to create counter offer" });
     }
   });
   
@@ -224,7 +400,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get offer history (all versions of an offer)
+  // Correct an offer's terms. Net proceeds and scores are recalculated.
+  app.patch("/api/offers/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const changes = updateOfferSchema.parse(req.body ?? {});
+      const existingOffer = await storage.getOffer(parseInt(req.params.id));
+      
+      if (!existingOffer || existingOffer.deletedAt) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(existingOffer.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to update this offer" });
+      }
+      
+      // Accepted and closed offers, and rounds a counter has replaced, are part of the
+      // status and negotiation history, so their terms stay as they were
+      if (!isOfferStatus(existingOffer.status) || !OPEN_OFFER_STATUSES.includes(existingOffer.status)) {
+        return res.status(409).json({ message: `A ${existingOffer.status} offer can't be edited` });
+      }
+      if (!latestNegotiationRoundIds(await storage.getOfferHistory(existingOffer.id)).has(existingOffer.id)) {
+        return res.status(409).json({ message: "Only the latest round of a negotiation can be edited" });
+      }
+      
+      // Validate the edited offer as a whole so a change can't leave it in an invalid state
+      const terms = insertOfferSchema.parse({
+        ...counterOfferTermsFrom(existingOffer),
+        ...changes,
+        listingId: existingOffer.listingId,
+      });
+      const netSheet = calculateNetSheet(netSheetInputFor(terms, listing));
+      
+      const updatedOffer = await storage.updateOffer(existingOffer.id, changes, netSheet);
+      const rescoredOffers = await rescoreListingOffers(listing.id);
+      const offer = rescoredOffers.find(o => o.id === existingOffer.id) ?? updatedOffer;
+      
+      res.json(offer);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: err.errors });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Failed to update offer" });
+    }
+  });
+  
+  // Soft-delete an offer. It stays in its negotiation thread's history but drops
+  // out of the listing's offers and scoring.
+  app.delete("/api/offers/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const offer = await storage.getOffer(parseInt(req.params.id));
+      
+      if (!offer || offer.deletedAt) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(offer.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to delete this offer" });
+      }
+      
+      // The listing is under contract on an accepted offer, so it has to be withdrawn or rejected first
+      if (offer.status === "accepted") {
+        return res.status(409).json({ message: "Withdraw or reject the accepted offer before deleting it" });
+      }
+      
+      await storage.deleteOffer(offer.id);
+      await rescoreListingOffers(listing.id);
+      
+      res.status(204).end();
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to delete offer" });
+    }
+  });
+  
+  // Get offer history (every round of the offer's negotiation thread)
   app.get("/api/offers/:id/history", async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
@@ -244,12 +506,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have permission to view this offer history" });
       }
       
+      // The whole negotiation as a tree, plus a flat list in version order
       const offerHistory = await storage.getOfferHistory(offerId);
-      res.json(offerHistory);
+      res.json(buildNegotiationThread(offerHistory));
     } catch (err) {
       res.status(500).json({ message: "Failed to fetch offer history" });
     }
   });
+
+  // Get the status changes of every round of the offer's negotiation, oldest first
+  app.get("/api/offers/:id/status-events", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const offerId = parseInt(req.params.id);
+      const offer = await storage.getOffer(offerId);
+
+      if (!offer) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(offer.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this offer history" });
+      }
+
+      const offerHistory = await storage.getOfferHistory(offerId);
+      const events = (await Promise.all(offerHistory.map(o => storage.getOfferStatusEvents(o.id)))).flat();
+      events.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id);
+      res.json(events);
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch offer status events" });
+    }
+  });
+
+  // Offer status transitions: POST /api/offers/:id/accept, /reject, /withdraw, /expire and /backup
+  (Object.keys(OFFER_STATUS_ACTIONS) as OfferStatusAction[]).forEach((action) => {
+    const status = OFFER_STATUS_ACTIONS[action];
+    
+    app.post(`/api/offers/:id/${action}`, async (req: Request, res: Response) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      try {
+        const { note, competingOffers } = offerStatusChangeSchema.parse(req.body ?? {});
+        const offer = await storage.getOffer(parseInt(req.params.id));
+        
+        if (!offer || offer.deletedAt) {
+          return res.status(404).json({ message: "Offer not found" });
+        }
+        
+        // Check if user owns the listing related to this offer
+        const listing = await storage.getListing(offer.listingId);
+        if (!listing || listing.userId !== req.user.id) {
+          return res.status(403).json({ message: "You don't have permission to update this offer" });
+        }
+        
+        if (!canTransitionOffer(offer.status, status)) {
+          return res.status(409).json({
+            message: `A ${offer.status} offer can't be moved to ${status}`
+          });
+        }
+        
+        if (status === "accepted") {
+          const listingOffers = await storage.getOffers(listing.id);
+          if (listingOffers.some(o => o.id !== offer.id && o.status === "accepted")) {
+            return res.status(409).json({ message: "Another offer on this listing has already been accepted" });
+          }
+        }
+        
+        const change = await changeOfferStatus(offer, listing, status, req.user.id, { note, competingOffers });
+        res.json(change);
+      } catch (err) {
+        if (err instanceof z.ZodError) {
+          return res.status(400).json({ message: "Validation error", errors: err.errors });
+        }
+        res.status(500).json({ message: "Failed to update offer status" });
+      }
+    });
+  });
   
   // Listing priorities routes
   app.get("/api/listings/:listingId/priorities", async (req: Request, res: Response) => {
@@ -302,6 +641,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = insertListingPrioritiesSchema.partial().parse(req.body);
       const priorities = await storage.updateListingPriorities(listingId, validatedData);
       
+      // Offer scores depend on the weights, so refresh them
+      await rescoreListingOffers(listingId);
+      
       res.json(priorities);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -326,55 +668,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have permission to view insights for this listing" });
       }
       
-      // Get offers and priorities
       const offers = await storage.getOffers(listingId);
-      const priorities = await storage.getListingPriorities(listingId);
-      
-      if (offers.length === 0) {
-        return res.json({
-          recommendation: "No offers to analyze yet",
-          riskAssessment: null,
-          netProceedsComparison: null,
-          negotiationOpportunities: null
-        });
-      }
+      const insights = buildListingInsights(offers);
       
-      // Simple analysis based on priorities
-      let bestOffer = offers[0];
-      let lowestRiskOffer = offers[0];
-      let highestNetProceedsOffer = offers[0];
-      
-      for (const offer of offers) {
-        if (offer.overallScore > bestOffer.overallScore) {
-          bestOffer = offer;
-        }
-        
-        if (offer.riskScore > lowestRiskOffer.riskScore) {
-          lowestRiskOffer = offer;
-        }
-        
-        if (Number(offer.netProceeds) > Number(highestNetProceedsOffer.netProceeds)) {
-          highestNetProceedsOffer = offer;
-        }
+      res.json(insights);
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to generate insights" });
+    }
+  });
+  
+  // The offer comparison report as a PDF, for the seller to sign off on
+  app.get("/api/listings/:id/report.pdf", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      // Check if user owns the listing
+      const listing = await storage.getListing(parseInt(req.params.id));
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this listing" });
       }
       
-      // Prepare insights
-      const insights = {
-        recommendation: `Based on your priorities, the offer from ${bestOffer.buyerName} is the strongest overall option with a score of ${bestOffer.overallScore}/100.`,
-        riskAssessment: `The ${lowestRiskOffer.buyerName} offer has the lowest risk with ${(lowestRiskOffer.contingencies as string[]).length} contingencies. Consider this option if certainty of closing is your highest priority.`,
-        netProceedsComparison: `The ${highestNetProceedsOffer.buyerName} offer provides the highest net proceeds at $${Number(highestNetProceedsOffer.netProceeds).toLocaleString()}, which is ${Number(highestNetProceedsOffer.netProceeds) - Number(offers[1].netProceeds) > 0 ? '$' + (Number(highestNetProceedsOffer.netProceeds) - Number(offers[1].netProceeds)).toLocaleString() + ' more' : '$' + (Number(offers[1].netProceeds) - Number(highestNetProceedsOffer.netProceeds)).toLocaleString() + ' less'} than the next best offer.`,
-        negotiationOpportunities: "Consider asking buyers to reduce contingencies or improve their offer price to strengthen their position."
-      };
+      const offers = await storage.getOffers(listing.id);
+      const data = await renderListingReport({
+        listing,
+        offers,
+        priorities: await storage.getListingPriorities(listing.id),
+        insights: buildListingInsights(offers),
+      });
       
-      res.json(insights);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Length", data.length);
+      res.setHeader("Content-Disposition", `attachment; filename="${listingReportFileName(listing)}"`);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.send(data);
     } catch (err) {
       console.error(err);
-      res.status(500).json({ message: "Failed to generate insights" });
+      res.status(500).json({ message: "Failed to generate report" });
     }
   });
   
   // Document upload and extraction
-  app.post("/api/offers/extract", upload.single('document'), async (req: Request, res: Response) => {
+  app.post("/api/offers/extract", requireAuth, uploadDocument, async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
@@ -396,44 +733,548 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You don't have permission to add offers to this listing" });
       }
       
-      // Read the file
-      const filePath = req.file.path;
-      const fileContent = fs.readFileSync(filePath, 'utf8');
+      // Check the file's size, type, page count and (when configured) for malware
+      const file = await validateUpload(req.file);
       
-      // Use OpenAI to extract offer details
-      const extractedData = await extractOfferDetails(fileContent, listing);
+      // Turn the PDF, Word, text or image file into plain text. This happens before the
+      // file is stored, so unreadable files are turned away.
+      const document = await parseDocumentData(file.buffer, file.fileName, { ocr: false });
+      const stored = await saveDocument(listing, req.user.id, file);
+      const details = {
+        userId: req.user.id,
+        listingId,
+        documentId: stored.id,
+        fileName: file.fileName,
+      };
       
-      // Calculate net proceeds based on loan balance
-      const price = Number(extractedData.price);
-      const loanBalance = Number(listing.loanBalance || 0);
+      // OCR takes seconds a page, so scans are read by the extraction queue rather than in the request
+      if (document.ocrSkipped) {
+        const queued = await storage.createDocumentExtraction(details);
+        await scheduleExtractionQueue();
+        return res.status(202).json(extractionResponse(queued));
+      }
+      
+      // Use OpenAI to extract offer details, with the confidence and source of each field.
+      // Failures leave the form to be filled in by hand and aren't billed.
+      const attempted = await startExtraction(details, document);
+      
+      // Still queued means it will be retried in the background
+      res.status(attempted.status === "queued" ? 202 : 200).json(extractionResponse(attempted));
+    } catch (err) {
+      if (err instanceof UploadRejectedError) {
+        return res.status(err.status).json({ message: err.message, reason: err.reason });
+      }
+      if (err instanceof DocumentParseError) {
+        return res.status(err.reason === "unsupported" ? 415 : 422).json({ message: err.message, reason: err.reason });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Failed to extract offer details" });
+    }
+  });
+  
+  app.get("/api/extractions/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const extraction = await storage.getDocumentExtraction(parseInt(req.params.id));
+      if (!extraction) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      if (extraction.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this extraction" });
+      }
       
-      // Handle commission calculation based on whether it's a dollar amount or percentage
-      let agentCommission = Number(extractedData.agentCommission || 0);
-      // If commission is provided as a percentage (typically < 20), convert to dollar amount
-      if (agentCommission > 0 && agentCommission <= 20) {
-        agentCommission = (price * agentCommission) / 100;
+      res.json(extractionResponse(extraction));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch extraction" });
+    }
+  });
+  
+  // Text of each page of the extracted document, for the review screen
+  app.get("/api/extractions/:id/document", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const extraction = await storage.getDocumentExtraction(parseInt(req.params.id));
+      if (!extraction) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      if (extraction.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this document" });
       }
       
-      // Add net proceeds to extracted data
-      const extractedDataWithNetProceeds = {
-        ...extractedData,
-        netProceeds: price - loanBalance - agentCommission
-      };
+      // Older extractions didn't keep the text, so the file is read again
+      const result = extraction.result;
+      const pages = result?.pageText
+        ? result.document.pages.map(page => ({ ...page, text: result.pageText?.[page.pageNumber - 1] ?? "" }))
+        : (await readExtractionDocument(extraction)).pages;
       
-      // Create usage event for billing
-      await storage.createUsageEvent({
-        userId: req.user.id,
-        eventType: "document_extraction",
-        amount: 2.50 // $2.50 per document extraction (more expensive than manual entry)
+      res.json({
+        fileName: extraction.fileName,
+        format: result?.document.format ?? null,
+        fileUrl: documentUrl({ id: extraction.documentId }),
+        pages,
       });
+    } catch (err) {
+      if (err instanceof DocumentParseError) {
+        return res.status(422).json({ message: err.message, reason: err.reason });
+      }
+      if (err instanceof DocumentNotFoundError) {
+        return res.status(404).json({ message: "Document file not found" });
+      }
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+  
+  // An uploaded document, for whoever owns its listing. Shown inline unless
+  // ?download=1 asks for an attachment.
+  app.get("/api/documents/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const document = await storage.getDocument(parseInt(req.params.id));
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      
+      // Check if user owns the listing
+      const listing = await storage.getListing(document.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this document" });
+      }
+      
+      const data = await readDocument(document);
+      const disposition = req.query.download === "1" ? "attachment" : "inline";
+      res.setHeader("Content-Type", document.contentType);
+      res.setHeader("Content-Length", data.length);
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeURIComponent(document.fileName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, no-store");
+      res.send(data);
+    } catch (err) {
+      if (err instanceof DocumentNotFoundError) {
+        return res.status(404).json({ message: "Document file not found" });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+  
+  // An offer's documents: the contract, addenda, pre-approval letter, proof of funds
+  app.get("/api/offers/:id/documents", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const offer = await storage.getOffer(parseInt(req.params.id));
+      if (!offer || offer.deletedAt) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(offer.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view this offer" });
+      }
+      
+      res.json(await offerDocumentsResponse(offer));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to fetch offer documents" });
+    }
+  });
+  
+  // Attach a document to an offer, or a new version of one with replacesDocumentId.
+  // Contracts and addenda are extracted like any offer document; pre-approval
+  // letters and proof of funds are read for the buyer's financing.
+  app.post("/api/offers/:id/documents", requireAuth, uploadDocument, async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No document uploaded" });
+      }
+      const { kind, replacesDocumentId } = offerDocumentUploadSchema.parse(req.body ?? {});
+      
+      const offer = await storage.getOffer(parseInt(req.params.id));
+      if (!offer || offer.deletedAt) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(offer.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to update this offer" });
+      }
+      
+      let previous: Document | undefined;
+      if (replacesDocumentId != null) {
+        previous = await storage.getDocument(replacesDocumentId);
+        if (!previous || previous.offerId !== offer.id) {
+          return res.status(404).json({ message: "Document not found on this offer" });
+        }
+        if (previous.supersededAt) {
+          return res.status(409).json({ message: "Only the latest version of a document can be replaced" });
+        }
+      }
+      const documentKind = kind ?? previous?.kind as DocumentKind | undefined;
+      if (!documentKind) {
+        return res.status(400).json({ message: "Choose what kind of document this is" });
+      }
+      
+      const file = await validateUpload(req.file);
+      const parsed = await parseDocumentData(file.buffer, file.fileName);
+      const stored = await saveDocument(listing, req.user.id, file, {
+        offerId: offer.id,
+        kind: documentKind,
+        version: previous ? previous.version + 1 : 1,
+        previousVersionId: previous?.id ?? null,
+        terms: readSupportingDocument(documentKind, parsed),
+      });
+      if (previous) {
+        await storage.updateDocument(previous.id, { supersededAt: new Date() });
+      }
+      
+      // Already attached, so it never waits in the review queue
+      if (TERMS_DOCUMENT_KINDS.includes(documentKind)) {
+        await startExtraction({
+          userId: req.user.id,
+          listingId: listing.id,
+          documentId: stored.id,
+          fileName: file.fileName,
+          offerId: offer.id,
+        }, parsed);
+      }
+      
+      res.status(201).json(await offerDocumentsResponse(offer));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: err.errors });
+      }
+      if (err instanceof UploadRejectedError) {
+        return res.status(err.status).json({ message: err.message, reason: err.reason });
+      }
+      if (err instanceof DocumentParseError) {
+        return res.status(err.reason === "unsupported" ? 415 : 422).json({ message: err.message, reason: err.reason });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+  
+  // Templates counter offer documents can be generated from
+  app.get("/api/counter-offer-templates", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    res.json(counterOfferTemplates.map(({ id, name, description }) => ({ id, name, description })));
+  });
+  
+  // Generate the PDF of a counter offer from a template, to send to the buyer's
+  // agent. It's kept with the counter's documents; generating it again adds a
+  // new version.
+  app.post("/api/offers/:id/counter-document", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const { templateId, respondBy } = counterDocumentSchema.parse(req.body ?? {});
+      
+      const counter = await storage.getOffer(parseInt(req.params.id));
+      if (!counter || counter.deletedAt) {
+        return res.status(404).json({ message: "Offer not found" });
+      }
+      
+      // Check if user owns the listing related to this offer
+      const listing = await storage.getListing(counter.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to update this offer" });
+      }
+      
+      if (!counter.isCounterOffer) {
+        return res.status(409).json({ message: "Only counter offers can be generated as a document" });
+      }
+      const template = getCounterOfferTemplate(templateId);
+      if (!template) {
+        return res.status(400).json({ message: `Unknown counter offer template "${templateId}"` });
+      }
+      
+      const thread = await storage.getOfferHistory(counter.id);
+      // Other buyers with an open counter from the same side, for multiple counter offers
+      const otherCounters = (await storage.getOffers(listing.id)).filter(offer =>
+        offer.isCounterOffer && offer.authoredBy === counter.authoredBy && offer.status === "pending"
+        && !thread.some(round => round.id === offer.id)
+      ).length;
+      
+      const data = await renderCounterOfferDocument({
+        template,
+        listing,
+        counter,
+        thread,
+        respondBy: respondBy ?? new Date(Date.now() + DEFAULT_COUNTER_RESPONSE_DAYS * 24 * 60 * 60 * 1000),
+        otherCounters,
+      });
+      
+      const previous = (await storage.getDocumentsByOffer(counter.id))
+        .find(document => document.kind === "counter_offer" && document.supersededAt == null);
+      const stored = await saveDocument(listing, req.user.id, { fileName: counterOfferFileName(template, counter), buffer: data }, {
+        offerId: counter.id,
+        kind: "counter_offer",
+        version: previous ? previous.version + 1 : 1,
+        previousVersionId: previous?.id ?? null,
+      });
+      if (previous) {
+        await storage.updateDocument(previous.id, { supersededAt: new Date() });
+      }
+      
+      res.status(201).json(documentVersionResponse(stored));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: err.errors });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Failed to generate counter offer document" });
+    }
+  });
+  
+  // Try a failed extraction again, e.g. once the extraction service is back
+  app.post("/api/extractions/:id/retry", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const extraction = await storage.getDocumentExtraction(parseInt(req.params.id));
+      if (!extraction) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      if (extraction.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to retry this extraction" });
+      }
+      // A manual retry starts a fresh round of attempts. Requeued only if it's
+      // still failed, so two retries at once don't both run it.
+      const requeued = await storage.claimDocumentExtraction(extraction.id, "failed", {
+        status: "queued",
+        attempts: 0,
+        nextAttemptAt: null,
+      });
+      if (!requeued) {
+        return res.status(409).json({ message: "Only failed extractions can be retried" });
+      }
+      
+      // The queue may pick it up first, in which case it's still in progress here
+      const attempted = await runExtraction(extraction.id) ?? requeued;
+      res.status(isExtractionPending(attempted.status as ExtractionStatus) ? 202 : 200).json(extractionResponse(attempted));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to retry extraction" });
+    }
+  });
+  
+  // Batch upload: every document is queued and extracted in the background.
+  // Poll GET /api/extraction-batches/:batchId for progress.
+  app.post("/api/listings/:listingId/extractions/batch", requireAuth, uploadDocuments, async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No documents uploaded" });
+      }
+      
+      // Check if user owns the listing
+      const listingId = parseInt(req.params.listingId);
+      const listing = await storage.getListing(listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to add offers to this listing" });
+      }
+      
+      // Every file has to pass validation before any is stored, so a rejected
+      // batch can simply be sent again without the file named in the error
+      const validated: ValidatedUpload[] = [];
+      for (const file of files) {
+        validated.push(await validateUpload(file));
+      }
+      
+      // Documents are read by the queue, so an unreadable one only fails its own extraction
+      const batchId = randomUUID();
+      const extractions: DocumentExtraction[] = [];
+      for (const file of validated) {
+        const stored = await saveDocument(listing, req.user.id, file);
+        extractions.push(await storage.createDocumentExtraction({
+          userId: req.user.id,
+          listingId,
+          documentId: stored.id,
+          fileName: file.fileName,
+          batchId,
+        }));
+      }
+      await scheduleExtractionQueue();
+      
+      res.status(202).json({
+        batchId,
+        total: extractions.length,
+        completed: 0,
+        extractions: extractions.map(extractionResponse),
+      });
+    } catch (err) {
+      if (err instanceof UploadRejectedError) {
+        return res.status(err.status).json({ message: err.message, reason: err.reason, fileName: err.fileName });
+      }
+      console.error(err);
+      res.status(500).json({ message: "Failed to queue documents" });
+    }
+  });
+  
+  // Progress of a batch upload, file by file
+  app.get("/api/extraction-batches/:batchId", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const extractions = await storage.getDocumentExtractionsByBatch(req.params.batchId);
+      if (extractions.length === 0) {
+        return res.status(404).json({ message: "Batch not found" });
+      }
+      if (extractions.some(extraction => extraction.userId !== req.user.id)) {
+        return res.status(403).json({ message: "You don't have permission to view this batch" });
+      }
       
       res.json({
-        extractedData: extractedDataWithNetProceeds,
-        documentUrl: req.file.path
+        batchId: req.params.batchId,
+        total: extractions.length,
+        completed: extractions.filter(extraction => !isExtractionPending(extraction.status as ExtractionStatus)).length,
+        extractions: extractions.map(extractionResponse),
+      });
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch batch progress" });
+    }
+  });
+  
+  // Review queue: the listing's extractions that haven't been confirmed or dismissed yet
+  app.get("/api/listings/:listingId/extractions", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const listingId = parseInt(req.params.listingId);
+      
+      // Check if user owns the listing
+      const listing = await storage.getListing(listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to view extractions for this listing" });
+      }
+      
+      const extractions = await storage.getDocumentExtractionsByListing(listingId);
+      res.json(extractions
+        .filter(extraction => extraction.offerId == null && extraction.dismissedAt == null)
+        .map(extractionResponse));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to fetch extractions" });
+    }
+  });
+  
+  // Turn an extraction into an offer. The body can correct any of the extracted terms,
+  // and must fill in whatever the document didn't state.
+  app.post("/api/extractions/:id/confirm", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const changes = confirmExtractionSchema.parse(req.body ?? {});
+      const extraction = await storage.getDocumentExtraction(parseInt(req.params.id));
+      if (!extraction) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      if (extraction.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to confirm this extraction" });
+      }
+      if (extraction.offerId != null || extraction.dismissedAt != null) {
+        return res.status(409).json({ message: "This extraction has already been reviewed" });
+      }
+      if (extraction.status !== "succeeded" && extraction.status !== "partial") {
+        return res.status(409).json({ message: "Only completed extractions can be confirmed" });
+      }
+      
+      const listing = await storage.getListing(extraction.listingId);
+      if (!listing || listing.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to add offers to this listing" });
+      }
+      
+      const terms = insertOfferSchema.parse({
+        contingencies: [],
+        ...extractedOfferTerms(extraction),
+        documentUrl: documentUrl({ id: extraction.documentId }),
+        ...changes,
+        listingId: listing.id,
       });
+      // Claim the extraction first, so a second confirm (e.g. a double click) can't create another offer
+      if (!await storage.claimDocumentExtractionReview(extraction.id, { reviewedAt: new Date() })) {
+        return res.status(409).json({ message: "This extraction has already been reviewed" });
+      }
+      let offer;
+      try {
+        offer = await addOfferToListing(listing, terms, req.user.id);
+      } catch (err) {
+        // Put it back in the review queue so the agent can try again
+        await storage.updateDocumentExtraction(extraction.id, { reviewedAt: null });
+        throw err;
+      }
+      
+      // Record what the agent changed, to see how well extraction is doing
+      const corrections = extraction.result ? fieldCorrections(extraction.result.offer, terms) : null;
+      await storage.updateDocumentExtraction(extraction.id, { offerId: offer.id, corrections });
+      await storage.updateDocument(extraction.documentId, { offerId: offer.id });
+      
+      res.status(201).json(offer);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: err.errors });
+      }
       console.error(err);
-      res.status(500).json({ message: "Failed to extract offer details" });
+      res.status(500).json({ message: "Failed to confirm extraction" });
+    }
+  });
+  
+  // Take an extraction out of the review queue without creating an offer
+  app.post("/api/extractions/:id/dismiss", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const extraction = await storage.getDocumentExtraction(parseInt(req.params.id));
+      if (!extraction) {
+        return res.status(404).json({ message: "Extraction not found" });
+      }
+      if (extraction.userId !== req.user.id) {
+        return res.status(403).json({ message: "You don't have permission to dismiss this extraction" });
+      }
+      
+      const now = new Date();
+      const dismissed = await storage.claimDocumentExtractionReview(extraction.id, { dismissedAt: now, reviewedAt: now });
+      if (!dismissed) {
+        return res.status(409).json({ message: "This extraction has already been reviewed" });
+      }
+      res.json(extractionResponse(dismissed));
+    } catch (err) {
+      res.status(500).json({ message: "Failed to dismiss extraction" });
     }
   });
   
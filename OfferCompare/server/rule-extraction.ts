@@ -0,0 +1,206 @@
+import { Listing } from "@shared/schema";
+import { CommissionTerm } from "@shared/commission";
+import { EXTRACTED_FIELDS, ExtractedField, ExtractedOffer, ExtractionEvidence } from "@shared/extraction";
+import type { ParsedDocument } from "./document-parser";
+import { verifyEvidence } from "./extraction-evidence";
+import { ExtractionProvider, OfferExtraction } from "./extraction-provider";
+
+// Reads offer details from labelled lines ("Purchase Price: $510,000") and a
+// few well-known phrases. No model is involved, so the same document always
+// gives the same answer, and nothing leaves the server.
+
+// Confidence of a value read from a labelled line, and of one inferred from wording
+const LABELLED_CONFIDENCE = 0.8;
+const INFERRED_CONFIDENCE = 0.6;
+
+// Contingencies recognised in free text, by the name the offer form uses
+const CONTINGENCY_PATTERNS: [string, RegExp][] = [
+  ["Financing", /\b(?:financing|loan)\s+contingenc(?:y|ies)\b/i],
+  ["Inspection", /\binspection\s+contingenc(?:y|ies)\b/i],
+  ["Appraisal", /\bappraisal\s+contingenc(?:y|ies)\b/i],
+  ["Home Sale", /\b(?:home[- ]sale|sale of (?:buyer'?s? )?(?:home|property))\s+contingenc(?:y|ies)\b/i],
+];
+
+// Wording before a contingency that means it was given up. It carries on through a
+// list, as in "waiving the inspection contingency and the appraisal contingency".
+const WAIVED_PATTERN = /\b(?:no|waived?|waiving|without)\s+(?:(?:\w+\s+){0,2}contingenc(?:y|ies)\s*(?:,\s*(?:and|or|nor)?|and|or|nor)\s+)*(?:\w+\s+){0,2}$/i;
+
+// How far before a contingency to look for WAIVED_PATTERN
+const WAIVED_LOOKBEHIND_CHARS = 100;
+
+interface RuleMatch<T> {
+  value: T;
+  pageNumber: number;
+  quote: string;
+  confidence: number;
+}
+
+/**
+ * First match of `pattern` on any page, turned into a value. Matches that
+ * `toValue` rejects are skipped.
+ */
+function findFirst<T>(
+  document: ParsedDocument,
+  pattern: RegExp,
+  toValue: (match: RegExpMatchArray) => T | null,
+  confidence = LABELLED_CONFIDENCE,
+): RuleMatch<T> | null {
+  for (const page of document.pages) {
+    for (const match of Array.from(page.text.matchAll(new RegExp(pattern.source, pattern.flags.replace("g", "") + "g")))) {
+      const value = toValue(match);
+      if (value != null) {
+        return { value, pageNumber: page.pageNumber, quote: match[0].trim(), confidence };
+      }
+    }
+  }
+  return null;
+}
+
+function parseAmount(text: string): number | null {
+  const amount = Number(text.replace(/[$,\s]/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+function parseCommissionTerm(text: string): CommissionTerm | null {
+  const percent = /^([\d.]+)\s*%$/.exec(text.trim());
+  if (percent) {
+    return { basis: "percent", amount: Number(percent[1]) };
+  }
+  const flat = parseAmount(text);
+  return flat != null ? { basis: "flat", amount: flat } : null;
+}
+
+function findBuyerName(document: ParsedDocument) {
+  return findFirst(document, /^[ \t]*(?:buyer(?:'s)?(?:\s+name)?s?|purchaser(?:'s)?(?:\s+name)?s?)[ \t]*:[ \t]*(.+)$/im, match => {
+    const name = match[1].trim();
+    return name && !/^(?:type|agent)\b/i.test(name) ? name : null;
+  });
+}
+
+function findBuyerType(document: ParsedDocument) {
+  const labelled = findFirst(document, /^[ \t]*buyer\s+type[ \t]*:[ \t]*(.+)$/im, match => match[1].trim() || null);
+  if (labelled) {
+    return labelled;
+  }
+  return (
+    findFirst(document, /\b(?:all[- ]cash|cash\s+(?:offer|buyer|purchase))\b/i, () => "cash", INFERRED_CONFIDENCE) ??
+    findFirst(document, /\bfirst[- ]time\s+(?:home\s*)?buyers?\b/i, () => "first-time", INFERRED_CONFIDENCE) ??
+    findFirst(document, /\bpre-?approv(?:ed|al)\b/i, () => "pre-approved", INFERRED_CONFIDENCE)
+  );
+}
+
+function findPrice(document: ParsedDocument) {
+  return findFirst(document, /\b(?:purchase\s+price|offer\s+price|offer\s+amount|price)[ \t]*[:\-]?[ \t]*\$?[ \t]*([\d,]+(?:\.\d{2})?)/i, match => parseAmount(match[1]));
+}
+
+function findClosingTimeline(document: ParsedDocument) {
+  return findFirst(
+    document,
+    /\b(?:close\s+of\s+escrow|closing|close)\b[^.\n\d]{0,40}?(\d{1,3})\s+(?:calendar\s+)?days\b/i,
+    match => {
+      const days = Number(match[1]);
+      return days > 0 ? days : null;
+    }
+  );
+}
+
+function findContingencies(document: ParsedDocument): RuleMatch<string[]> | null {
+  // A labelled list is taken as the whole answer, including "None"
+  const labelled = findFirst(document, /^[ \t]*contingenc(?:y|ies)[ \t]*:[ \t]*(.+)$/im, match => {
+    const list = match[1].trim();
+    if (/^(?:none|n\/a|waived)\.?$/i.test(list)) {
+      return [];
+    }
+    return list.split(/\s*(?:,|;|\band\b)\s*/i).map(contingencyName).filter(Boolean);
+  });
+  if (labelled) {
+    return labelled;
+  }
+
+  const found: string[] = [];
+  let first: RuleMatch<string> | null = null;
+  for (const [name, pattern] of CONTINGENCY_PATTERNS) {
+    const match = findFirst(document, pattern, m => {
+      const before = (m.input ?? "").slice(Math.max(0, (m.index ?? 0) - WAIVED_LOOKBEHIND_CHARS), m.index);
+      return WAIVED_PATTERN.test(before) ? null : name;
+    }, INFERRED_CONFIDENCE);
+    if (match) {
+      found.push(name);
+      first = first ?? match;
+    }
+  }
+  return first ? { ...first, value: found } : null;
+}
+
+// A listed contingency under the name the offer form uses, e.g. "loan" is "Financing"
+function contingencyName(item: string): string {
+  const name = item.replace(/\s+contingenc(?:y|ies)$/i, "").trim();
+  const known = CONTINGENCY_PATTERNS.find(([, pattern]) => pattern.test(`${name} contingency`));
+  return known ? known[0] : name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function findCommission(document: ParsedDocument) {
+  const term = String.raw`(\$?[\d,]+(?:\.\d+)?\s*%?)`;
+  const side = (label: string) => findFirst(
+    document,
+    new RegExp(String.raw`\b${label}[^:\n]{0,30}(?:commission|compensation|fee)[ \t]*[:\-]?[ \t]*${term}`, "i"),
+    match => parseCommissionTerm(match[1])
+  );
+  const listingSide = side(String.raw`(?:listing|seller'?s?)\s+(?:agent|broker)`);
+  const buyerSide = side(String.raw`(?:buyer'?s?|selling|cooperating)\s+(?:agent|broker)`);
+  // Terms need both sides; one alone is left for the agent to complete
+  if (!listingSide || !buyerSide) {
+    return null;
+  }
+  return {
+    value: { listingSide: listingSide.value, buyerSide: buyerSide.value, extras: [] },
+    pageNumber: buyerSide.pageNumber,
+    quote: buyerSide.quote,
+    confidence: Math.min(listingSide.confidence, buyerSide.confidence),
+  };
+}
+
+function findNotes(document: ParsedDocument) {
+  return findFirst(document, /^[ \t]*(?:notes?|special\s+(?:conditions|terms|provisions)|additional\s+terms)[ \t]*:[ \t]*(.+)$/im, match => match[1].trim() || null);
+}
+
+/**
+ * Offer details found by the rules, with the line each came from
+ */
+export function extractWithRules(document: ParsedDocument): OfferExtraction {
+  const matches: { [Field in ExtractedField]: RuleMatch<NonNullable<ExtractedOffer[Field]>> | null } = {
+    buyerName: findBuyerName(document),
+    buyerType: findBuyerType(document),
+    price: findPrice(document),
+    commission: findCommission(document),
+    closingTimelineDays: findClosingTimeline(document),
+    contingencies: findContingencies(document),
+    notes: findNotes(document),
+  };
+
+  const offer: ExtractedOffer = {
+    buyerName: matches.buyerName?.value ?? null,
+    buyerType: matches.buyerType?.value ?? null,
+    price: matches.price?.value ?? null,
+    commission: matches.commission?.value ?? null,
+    closingTimelineDays: matches.closingTimelineDays?.value ?? null,
+    contingencies: matches.contingencies?.value ?? null,
+    notes: matches.notes?.value ?? null,
+  };
+
+  const evidence: ExtractionEvidence = {};
+  EXTRACTED_FIELDS.forEach(field => {
+    const match = matches[field];
+    evidence[field] = verifyEvidence(document, match ?? undefined, offer[field] != null);
+  });
+
+  return { offer, evidence };
+}
+
+export class RuleBasedExtractionProvider implements ExtractionProvider {
+  name = "rules";
+
+  async extract(document: ParsedDocument, _listing: Listing): Promise<OfferExtraction> {
+    return extractWithRules(document);
+  }
+}
@@ -0,0 +1,174 @@
+import { CategoryScore, ListingPriorities, Offer, SCORE_CATEGORIES, ScoreBreakdown, ScoreCategory } from "@shared/schema";
+import { latestNegotiationRoundIds } from "@shared/negotiation";
+import { OPEN_OFFER_STATUSES, isOfferStatus } from "@shared/offer-status";
+import { storage } from "./storage";
+
+export interface OfferScore {
+  overallScore: number;
+  scoreBreakdown: ScoreBreakdown;
+}
+
+// Weight used when a listing has no saved priorities
+const DEFAULT_WEIGHT = 5;
+
+// How strongly each buyer type is qualified to close, on a 1-10 scale
+const BUYER_QUALIFICATION_SCORES: Record<string, number> = {
+  "cash": 10,
+  "pre-approved": 8,
+  "investor": 7,
+  "first-time": 5,
+  "other": 4,
+};
+const UNKNOWN_BUYER_QUALIFICATION = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days from the offer to closing: the stated timeline, or else the days between
+ * the offer and its closing date. Null when the offer states neither.
+ */
+function closingDays(offer: Offer): number | null {
+  if (offer.closingTimelineDays != null) {
+    return offer.closingTimelineDays;
+  }
+  if (offer.closingDate) {
+    const days = Math.round((new Date(offer.closingDate).getTime() - new Date(offer.createdAt).getTime()) / DAY_MS);
+    return isNaN(days) ? null : Math.max(0, days);
+  }
+  return null;
+}
+
+/**
+ * Raw value of an offer on one dimension, together with whether higher values
+ * are better. A null value is unknown and scores as the worst.
+ */
+function rawValue(offer: Offer, category: ScoreCategory): { value: number | null; higherIsBetter: boolean } {
+  switch (category) {
+    case "offerPrice":
+      return { value: Number(offer.price) || 0, higherIsBetter: true };
+    case "netProceeds":
+      return { value: Number(offer.netProceeds) || 0, higherIsBetter: true };
+    case "closingTimeline":
+      return { value: closingDays(offer), higherIsBetter: false };
+    case "contingencies":
+      return { value: ((offer.contingencies as string[]) || []).length, higherIsBetter: false };
+    case "buyerQualification": {
+      const buyerType = (offer.buyerType || "").toLowerCase();
+      return { value: BUYER_QUALIFICATION_SCORES[buyerType] ?? UNKNOWN_BUYER_QUALIFICATION, higherIsBetter: true };
+    }
+  }
+}
+
+/**
+ * Saved weight for each category, falling back to equal weights
+ */
+export function weightsFor(priorities?: ListingPriorities): Record<ScoreCategory, number> {
+  const weights = {} as Record<ScoreCategory, number>;
+  for (const category of SCORE_CATEGORIES) {
+    const weight = priorities?.[category];
+    weights[category] = typeof weight === "number" && weight >= 0 ? weight : DEFAULT_WEIGHT;
+  }
+
+  // All sliders at zero would make every offer score zero, so treat that as "no preference"
+  if (SCORE_CATEGORIES.every(category => weights[category] === 0)) {
+    for (const category of SCORE_CATEGORIES) {
+      weights[category] = DEFAULT_WEIGHT;
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Score competing offers against each other on a 0-100 scale.
+ *
+ * Each category is min-max normalized across the competing offers (all of
+ * `offers` unless given), so the best of them in a category gets 1 and the
+ * worst gets 0 (everyone gets 1 when they tie). Offers outside that range are
+ * capped at 0 and 1, and unknown values get 0. The normalized values are then
+ * averaged using the listing's priority weights, and the per-category
+ * contributions add up to the overall score.
+ */
+export function scoreOffers(offers: Offer[], priorities?: ListingPriorities, competing: Offer[] = offers): Map<number, OfferScore> {
+  const weights = weightsFor(priorities);
+  const totalWeight = SCORE_CATEGORIES.reduce((sum, category) => sum + weights[category], 0);
+  const breakdowns = new Map<number, Partial<ScoreBreakdown>>(offers.map(offer => [offer.id, {}]));
+
+  for (const category of SCORE_CATEGORIES) {
+    const range = competing
+      .map(offer => rawValue(offer, category).value)
+      .filter((value): value is number => value != null);
+    const min = Math.min(...range);
+    const max = Math.max(...range);
+
+    offers.forEach(offer => {
+      const { value, higherIsBetter } = rawValue(offer, category);
+      let normalizedScore = 1;
+      if (value == null) {
+        normalizedScore = 0;
+      } else if (max > min) {
+        normalizedScore = higherIsBetter ? (value - min) / (max - min) : (max - value) / (max - min);
+        normalizedScore = Math.min(1, Math.max(0, normalizedScore));
+      } else if (range.length > 0 && (higherIsBetter ? value < min : value > max)) {
+        // Worse than every competing offer, which all tie
+        normalizedScore = 0;
+      }
+
+      const categoryScore: CategoryScore = {
+        rawValue: value,
+        normalizedScore: round(normalizedScore, 4),
+        weight: weights[category],
+        weightedContribution: round((normalizedScore * weights[category] / totalWeight) * 100, 2),
+      };
+      breakdowns.get(offer.id)![category] = categoryScore;
+    });
+  }
+
+  const scores = new Map<number, OfferScore>();
+  breakdowns.forEach((breakdown, offerId) => {
+    const scoreBreakdown = breakdown as ScoreBreakdown;
+    const total = SCORE_CATEGORIES.reduce((sum, category) => sum + scoreBreakdown[category].weightedContribution, 0);
+    scores.set(offerId, { overallScore: Math.round(total), scoreBreakdown });
+  });
+  return scores;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Offers still in the running: the latest round of each negotiation thread,
+ * in an open status. Earlier rounds and dead offers are left out, so they
+ * don't compete with the offers that replaced them.
+ */
+export function liveOffers(offers: Offer[]): Offer[] {
+  const latestRoundIds = latestNegotiationRoundIds(offers);
+  return offers.filter(offer =>
+    latestRoundIds.has(offer.id) && isOfferStatus(offer.status) && OPEN_OFFER_STATUSES.includes(offer.status)
+  );
+}
+
+/**
+ * Recompute and store the score and breakdown of every offer on a listing.
+ * Call this whenever an offer is added, changes status or the listing's
+ * priorities change, since each score depends on the competing offers. Only
+ * live offers set the range; the others are scored against it.
+ */
+export async function rescoreListingOffers(listingId: number): Promise<Offer[]> {
+  // Deleted rounds are only needed to hold the threads together
+  const allOffers = await storage.getOffers(listingId, { includeDeleted: true });
+  const offers = allOffers.filter(offer => offer.deletedAt == null);
+  const live = liveOffers(allOffers);
+  const priorities = await storage.getListingPriorities(listingId);
+  // With nothing live, e.g. once an offer is accepted, score what there is against itself
+  const scores = scoreOffers(offers, priorities, live.length > 0 ? live : offers);
+
+  const rescored: Offer[] = [];
+  for (const offer of offers) {
+    const updated = await storage.updateOfferScores(offer.id, scores.get(offer.id)!);
+    rescored.push(updated ?? offer);
+  }
+  return rescored;
+}
@@ -1,11 +1,24 @@
-import { InsertListing, InsertListingPriorities, InsertOffer, InsertUser, InsertUsageEvent, Listing, ListingPriorities, Offer, User, UsageEvent, listings, listingPriorities, offers, sessions, usageEvents, users } from "@shared/schema";
+import { Document, DocumentExtraction, InsertDocument, InsertDocumentExtraction, InsertListing, InsertListingPriorities, InsertOffer, InsertOfferStatusEvent, InsertUser, InsertUsageEvent, Listing, ListingPriorities, Offer, OfferStatusEvent, User, UsageEvent, documentExtractions, documents, listings, listingPriorities, offerStatusEvents, offers, sessions, usageEvents, users } from "@shared/schema";
 import { randomBytes, scrypt } from "crypto";
 import { promisify } from "util";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { connectDatabase, type Database } from "./db";
+import type { NetSheet } from "@shared/net-sheet";
+import type { OfferStatus } from "@shared/offer-status";
+import type { ExtractionStatus } from "@shared/extraction";
+import { collectNegotiationThread, type NegotiationFields } from "@shared/negotiation";
 
 const scryptAsync = promisify(scrypt);
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+// What an extraction attempt records about its outcome
+export type DocumentUpdate = Partial<Pick<Document, "offerId" | "supersededAt" | "terms">>;
+
+export type DocumentExtractionUpdate = Partial<Pick<DocumentExtraction, "status" | "failureReason" | "attempts" | "nextAttemptAt" | "result" | "usageEventId" | "offerId" | "dismissedAt" | "reviewedAt" | "corrections">>;
 
 export interface IStorage {
   // User methods
@@ -24,11 +37,18 @@ export interface IStorage {
   updateListing(id: number, listing: Partial<InsertListing>): Promise<Listing | undefined>;
   
   // Offer methods
-  createOffer(offer: InsertOffer, userId: number): Promise<Offer>;
-  getOffers(listingId: number): Promise<Offer[]>;
+  createOffer(offer: InsertOffer, userId: number, netSheet: NetSheet, negotiation: NegotiationFields): Promise<Offer>;
+  getOffers(listingId: number, options?: { includeDeleted?: boolean }): Promise<Offer[]>; // Deleted offers are left out unless asked for
   getOffer(id: number): Promise<Offer | undefined>;
-  updateOffer(id: number, offer: Partial<InsertOffer>): Promise<Offer | undefined>;
-  getOfferHistory(offerId: number): Promise<Offer[]>; // Get all versions of an offer (original + counters)
+  updateOffer(id: number, offer: Partial<InsertOffer>, netSheet?: NetSheet): Promise<Offer | undefined>; // Pass the recalculated net sheet when terms change
+  deleteOffer(id: number): Promise<Offer | undefined>; // Soft delete
+  updateOfferScores(id: number, scores: Pick<Offer, "overallScore" | "scoreBreakdown">): Promise<Offer | undefined>;
+  updateOfferStatus(id: number, status: OfferStatus): Promise<Offer | undefined>;
+  getOfferHistory(offerId: number): Promise<Offer[]>; // Every round of the offer's negotiation thread, in version order
+  
+  // Offer status history methods
+  createOfferStatusEvent(event: InsertOfferStatusEvent): Promise<OfferStatusEvent>;
+  getOfferStatusEvents(offerId: number): Promise<OfferStatusEvent[]>;
   
   // Listing priorities methods
   createListingPriorities(priorities: InsertListingPriorities): Promise<ListingPriorities>;
@@ -40,8 +60,35 @@ export interface IStorage {
   getUserUsageEvents(userId: number): Promise<UsageEvent[]>;
   markUsageEventAsProcessed(id: number, stripeInvoiceId?: string, stripeUsageRecordId?: string): Promise<UsageEvent>;
   
+  // Document methods
+  createDocument(document: InsertDocument): Promise<Document>;
+  getDocument(id: number): Promise<Document | undefined>;
+  getDocumentsByOffer(offerId: number): Promise<Document[]>;
+  updateDocument(id: number, changes: DocumentUpdate): Promise<Document | undefined>;
+  
+  // Document extraction methods
+  createDocumentExtraction(extraction: InsertDocumentExtraction): Promise<DocumentExtraction>;
+  getDocumentExtraction(id: number): Promise<DocumentExtraction | undefined>;
+  getDocumentExtractionsByStatus(statuses: ExtractionStatus[]): Promise<DocumentExtraction[]>;
+  getDocumentExtractionsByListing(listingId: number): Promise<DocumentExtraction[]>;
+  getDocumentExtractionsByBatch(batchId: string): Promise<DocumentExtraction[]>;
+  updateDocumentExtraction(id: number, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined>;
+  // Applies the changes only while the extraction is still in status `from`, in one step.
+  // Undefined when it has moved on, e.g. another run claimed it first.
+  claimDocumentExtraction(id: number, from: ExtractionStatus, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined>;
+  // Applies the changes only while the extraction hasn't been confirmed, dismissed or claimed
+  // for review, in one step. Undefined when another confirm or dismiss got there first.
+  claimDocumentExtractionReview(id: number, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined>;
+  
   // Session store
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
+}
+
+// More contingencies = higher risk. The overall score depends on the competing offers,
+// so it is filled in by the scoring module after the offer is saved.
+function calculateRiskScore(offer: Pick<InsertOffer, "contingencies">): number {
+  const contingencies = offer.contingencies as string[] || [];
+  return Math.max(1, 10 - contingencies.length * 2);
 }
 
 export class MemStorage implements IStorage {
@@ -50,13 +97,19 @@ export class MemStorage implements IStorage {
   private offersData: Map<number, Offer>;
   private listingPrioritiesData: Map<number, ListingPriorities>;
   private usageEventsData: Map<number, UsageEvent>;
+  private offerStatusEventsData: Map<number, OfferStatusEvent>;
+  private documentsData: Map<number, Document>;
+  private documentExtractionsData: Map<number, DocumentExtraction>;
   
-  sessionStore: session.SessionStore;
+  sessionStore: session.Store;
   currentUserId: number;
   currentListingId: number;
   currentOfferId: number;
   currentPriorityId: number;
   currentUsageEventId: number;
+  currentOfferStatusEventId: number;
+  currentDocumentId: number;
+  currentDocumentExtractionId: number;
 
   constructor() {
     this.usersData = new Map();
@@ -64,6 +117,9 @@ export class MemStorage implements IStorage {
     this.offersData = new Map();
     this.listingPrioritiesData = new Map();
     this.usageEventsData = new Map();
+    this.offerStatusEventsData = new Map();
+    this.documentsData = new Map();
+    this.documentExtractionsData = new Map();
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24h
@@ -74,6 +130,9 @@ export class MemStorage implements IStorage {
     this.currentOfferId = 1;
     this.currentPriorityId = 1;
     this.currentUsageEventId = 1;
+    this.currentOfferStatusEventId = 1;
+    this.currentDocumentId = 1;
+    this.currentDocumentExtractionId = 1;
   }
 
   // User methods
@@ -167,30 +226,23 @@ export class MemStorage implements IStorage {
   }
 
   // Offer methods
-  async createOffer(offer: InsertOffer, userId: number): Promise<Offer> {
+  async createOffer(offer: InsertOffer, userId: number, netSheet: NetSheet, negotiation: NegotiationFields): Promise<Offer> {
     const id = this.currentOfferId++;
     const timestamp = new Date();
     
-    // Calculate net proceeds based on price and commission
-    const price = Number(offer.price);
-    const commission = offer.agentCommission ? Number(offer.agentCommission) : 0.06 * price; // Default 6% if not specified
-    const netProceeds = price - commission;
-    
-    // Calculate basic risk score and overall score
-    const contingencies = offer.contingencies as string[] || [];
-    const riskScore = Math.max(1, 10 - contingencies.length * 2); // More contingencies = higher risk
-    
-    // Simple overall score calculation (can be enhanced later)
-    const overallScore = Math.round((price / 1000000 * 40) + (riskScore * 5) + (60 - offer.closingTimelineDays / 2));
-    
     const newOffer: Offer = {
       ...offer,
+      ...negotiation,
       id,
       userId,
-      netProceeds,
-      riskScore,
-      overallScore,
+      netProceeds: String(netSheet.netProceeds),
+      netSheet,
+      riskScore: calculateRiskScore(offer),
+      overallScore: null,
+      scoreBreakdown: null,
+      status: "pending",
       createdAt: timestamp,
+      deletedAt: null,
       contingencies: offer.contingencies || []
     };
     
@@ -198,9 +250,9 @@ export class MemStorage implements IStorage {
     return newOffer;
   }
 
-  async getOffers(listingId: number): Promise<Offer[]> {
+  async getOffers(listingId: number, options: { includeDeleted?: boolean } = {}): Promise<Offer[]> {
     return Array.from(this.offersData.values()).filter(
-      (offer) => offer.listingId === listingId
+      (offer) => offer.listingId === listingId && (options.includeDeleted || !offer.deletedAt)
     );
   }
 
@@ -208,43 +260,82 @@ export class MemStorage implements IStorage {
     return this.offersData.get(id);
   }
 
-  async updateOffer(id: number, offer: Partial<InsertOffer>): Promise<Offer | undefined> {
+  async updateOffer(id: number, offer: Partial<InsertOffer>, netSheet?: NetSheet): Promise<Offer | undefined> {
     const existingOffer = await this.getOffer(id);
     if (!existingOffer) {
       return undefined;
     }
     
-    const updatedOffer = { ...existingOffer, ...offer };
+    const updatedOffer: Offer = {
+      ...existingOffer,
+      ...toOfferColumns(offer),
+      ...(netSheet && { netProceeds: String(netSheet.netProceeds), netSheet }),
+      ...(offer.contingencies !== undefined && { riskScore: calculateRiskScore(offer) }),
+    };
     this.offersData.set(id, updatedOffer);
     return updatedOffer;
   }
   
-  async getOfferHistory(offerId: number): Promise<Offer[]> {
-    const offer = await this.getOffer(offerId);
-    if (!offer) {
-      return [];
+  async deleteOffer(id: number): Promise<Offer | undefined> {
+    const existingOffer = await this.getOffer(id);
+    if (!existingOffer) {
+      return undefined;
     }
     
-    // Get the root ancestor (if this is a counter offer)
-    const rootOfferId = offer.parentOfferId || offer.id;
-    const rootOffer = await this.getOffer(rootOfferId);
-    if (!rootOffer) {
-      return [offer];
+    const deletedOffer = { ...existingOffer, deletedAt: new Date() };
+    this.offersData.set(id, deletedOffer);
+    return deletedOffer;
+  }
+  
+  async updateOfferScores(id: number, scores: Pick<Offer, "overallScore" | "scoreBreakdown">): Promise<Offer | undefined> {
+    const existingOffer = await this.getOffer(id);
+    if (!existingOffer) {
+      return undefined;
     }
     
-    // Get all offers with this parent ID
-    const counterOffers = Array.from(this.offersData.values()).filter(
-      o => (o.parentOfferId === rootOfferId || o.id === rootOfferId)
-    );
+    const updatedOffer = { ...existingOffer, ...scores };
+    this.offersData.set(id, updatedOffer);
+    return updatedOffer;
+  }
+  
+  async updateOfferStatus(id: number, status: OfferStatus): Promise<Offer | undefined> {
+    const existingOffer = await this.getOffer(id);
+    if (!existingOffer) {
+      return undefined;
+    }
     
-    // If this offer isn't a counter offer and has no counter offers, just return it
-    if (counterOffers.length === 0) {
-      return [offer];
+    const updatedOffer = { ...existingOffer, status };
+    this.offersData.set(id, updatedOffer);
+    return updatedOffer;
+  }
+  
+  async getOfferHistory(offerId: number): Promise<Offer[]> {
+    const offer = await this.getOffer(offerId);
+    if (!offer) {
+      return [];
     }
     
-    // Sort by version number
-    return counterOffers.sort((a, b) => 
-      (a.versionNumber || 1) - (b.versionNumber || 1)
+    // Counters can go any number of levels deep, so walk the listing's offers.
+    // Deleted rounds stay in so the thread doesn't fall apart.
+    return collectNegotiationThread(await this.getOffers(offer.listingId, { includeDeleted: true }), offerId);
+  }
+
+  // Offer status history methods
+  async createOfferStatusEvent(event: InsertOfferStatusEvent): Promise<OfferStatusEvent> {
+    const id = this.currentOfferStatusEventId++;
+    const newEvent: OfferStatusEvent = {
+      ...event,
+      id,
+      note: event.note ?? null,
+      createdAt: new Date()
+    };
+    this.offerStatusEventsData.set(id, newEvent);
+    return newEvent;
+  }
+
+  async getOfferStatusEvents(offerId: number): Promise<OfferStatusEvent[]> {
+    return Array.from(this.offerStatusEventsData.values()).filter(
+      (event) => event.offerId === offerId
     );
   }
 
@@ -287,6 +378,7 @@ export class MemStorage implements IStorage {
     const newEvent: UsageEvent = {
       ...event,
       id,
+      amount: String(event.amount),
       processed: false,
       stripeInvoiceId: null,
       stripeUsageRecordId: null,
@@ -318,6 +410,553 @@ export class MemStorage implements IStorage {
     this.usageEventsData.set(id, updatedEvent);
     return updatedEvent;
   }
+
+  // Document methods
+  async createDocument(document: InsertDocument): Promise<Document> {
+    const id = this.currentDocumentId++;
+    const newDocument: Document = {
+      ...document,
+      id,
+      offerId: document.offerId ?? null,
+      kind: document.kind ?? "contract",
+      version: document.version ?? 1,
+      previousVersionId: document.previousVersionId ?? null,
+      supersededAt: null,
+      terms: document.terms ?? null,
+      createdAt: new Date()
+    };
+    this.documentsData.set(id, newDocument);
+    return newDocument;
+  }
+
+  async getDocument(id: number): Promise<Document | undefined> {
+    return this.documentsData.get(id);
+  }
+
+  async getDocumentsByOffer(offerId: number): Promise<Document[]> {
+    return Array.from(this.documentsData.values()).filter(
+      (document) => document.offerId === offerId
+    );
+  }
+
+  async updateDocument(id: number, changes: DocumentUpdate): Promise<Document | undefined> {
+    const document = this.documentsData.get(id);
+    if (!document) {
+      return undefined;
+    }
+    
+    const updatedDocument: Document = { ...document, ...changes };
+    this.documentsData.set(id, updatedDocument);
+    return updatedDocument;
+  }
+
+  // Document extraction methods
+  async createDocumentExtraction(extraction: InsertDocumentExtraction): Promise<DocumentExtraction> {
+    const id = this.currentDocumentExtractionId++;
+    const timestamp = new Date();
+    const newExtraction: DocumentExtraction = {
+      ...extraction,
+      id,
+      status: extraction.status ?? "queued",
+      failureReason: null,
+      attempts: extraction.attempts ?? 0,
+      nextAttemptAt: null,
+      result: null,
+      usageEventId: null,
+      batchId: extraction.batchId ?? null,
+      offerId: extraction.offerId ?? null,
+      dismissedAt: null,
+      reviewedAt: null,
+      corrections: null,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+    this.documentExtractionsData.set(id, newExtraction);
+    return newExtraction;
+  }
+
+  async getDocumentExtraction(id: number): Promise<DocumentExtraction | undefined> {
+    return this.documentExtractionsData.get(id);
+  }
+
+  async getDocumentExtractionsByStatus(statuses: ExtractionStatus[]): Promise<DocumentExtraction[]> {
+    return Array.from(this.documentExtractionsData.values()).filter(
+      (extraction) => statuses.includes(extraction.status as ExtractionStatus)
+    );
+  }
+
+  async getDocumentExtractionsByListing(listingId: number): Promise<DocumentExtraction[]> {
+    return Array.from(this.documentExtractionsData.values()).filter(
+      (extraction) => extraction.listingId === listingId
+    );
+  }
+
+  async getDocumentExtractionsByBatch(batchId: string): Promise<DocumentExtraction[]> {
+    return Array.from(this.documentExtractionsData.values()).filter(
+      (extraction) => extraction.batchId === batchId
+    );
+  }
+
+  async updateDocumentExtraction(id: number, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined> {
+    const extraction = this.documentExtractionsData.get(id);
+    if (!extraction) {
+      return undefined;
+    }
+    
+    const updatedExtraction: DocumentExtraction = { ...extraction, ...changes, updatedAt: new Date() };
+    this.documentExtractionsData.set(id, updatedExtraction);
+    return updatedExtraction;
+  }
+
+  async claimDocumentExtraction(id: number, from: ExtractionStatus, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined> {
+    // Nothing awaits between the check and the update, so no other run can get in between
+    const extraction = this.documentExtractionsData.get(id);
+    if (!extraction || extraction.status !== from) {
+      return undefined;
+    }
+    
+    const updatedExtraction: DocumentExtraction = { ...extraction, ...changes, updatedAt: new Date() };
+    this.documentExtractionsData.set(id, updatedExtraction);
+    return updatedExtraction;
+  }
+
+  async claimDocumentExtractionReview(id: number, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined> {
+    const extraction = this.documentExtractionsData.get(id);
+    if (!extraction || extraction.offerId != null || extraction.dismissedAt != null || extraction.reviewedAt != null) {
+      return undefined;
+    }
+    
+    const updatedExtraction: DocumentExtraction = { ...extraction, ...changes, updatedAt: new Date() };
+    this.documentExtractionsData.set(id, updatedExtraction);
+    return updatedExtraction;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  private ready: Promise<void>;
+  
+  sessionStore: session.Store;
+
+  constructor(databaseUrl: string) {
+    const { db, pool, ready } = connectDatabase(databaseUrl);
+    this.db = db;
+    this.ready = ready;
+    
+    // The embedded database has no node-postgres pool, so its sessions stay in memory
+    this.sessionStore = pool
+      ? new PostgresSessionStore({ pool, createTableIfMissing: true })
+      : new MemoryStore({ checkPeriod: 86400000 }); // 24h
+  }
+
+  // Wait for the connection before every query
+  private async database(): Promise<Database> {
+    await this.ready;
+    return this.db;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.googleId, googleId));
+    return user;
+  }
+
+  async getUserByAppleId(appleId: string): Promise<User | undefined> {
+    const db = await this.database();
+    const [user] = await db.select().from(users).where(eq(users.appleId, appleId));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await this.database();
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUserStripeInfo(userId: number, stripeCustomerId: string): Promise<User> {
+    const db = await this.database();
+    const [user] = await db
+      .update(users)
+      .set({ stripeCustomerId })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    if (!user) {
+      throw new Error('User not found');
+    }
+    
+    return user;
+  }
+
+  // Listing methods
+  async createListing(listing: InsertListing, userId: number): Promise<Listing> {
+    const db = await this.database();
+    const [newListing] = await db
+      .insert(listings)
+      .values({
+        ...listing,
+        userId,
+        status: "active",
+        price: String(listing.price),
+        loanBalance: listing.loanBalance === undefined ? null : String(listing.loanBalance),
+        annualPropertyTax: listing.annualPropertyTax === undefined ? null : String(listing.annualPropertyTax),
+        hoaMonthlyDues: listing.hoaMonthlyDues === undefined ? null : String(listing.hoaMonthlyDues),
+        bathrooms: String(listing.bathrooms)
+      })
+      .returning();
+    return newListing;
+  }
+
+  async getListings(userId: number): Promise<Listing[]> {
+    const db = await this.database();
+    return db.select().from(listings).where(eq(listings.userId, userId)).orderBy(asc(listings.id));
+  }
+
+  async getListing(id: number): Promise<Listing | undefined> {
+    const db = await this.database();
+    const [listing] = await db.select().from(listings).where(eq(listings.id, id));
+    return listing;
+  }
+
+  async updateListing(id: number, listing: Partial<InsertListing>): Promise<Listing | undefined> {
+    const db = await this.database();
+    const [updatedListing] = await db
+      .update(listings)
+      .set(toListingColumns(listing))
+      .where(eq(listings.id, id))
+      .returning();
+    return updatedListing;
+  }
+
+  // Offer methods
+  async createOffer(offer: InsertOffer, userId: number, netSheet: NetSheet, negotiation: NegotiationFields): Promise<Offer> {
+    const db = await this.database();
+    
+    const [newOffer] = await db
+      .insert(offers)
+      .values({
+        ...offer,
+        ...negotiation,
+        userId,
+        price: String(offer.price),
+        sellerConcessions: offer.sellerConcessions === undefined ? null : String(offer.sellerConcessions),
+        netProceeds: String(netSheet.netProceeds),
+        netSheet,
+        riskScore: calculateRiskScore(offer),
+        contingencies: offer.contingencies || []
+      })
+      .returning();
+    return newOffer;
+  }
+
+  async getOffers(listingId: number, options: { includeDeleted?: boolean } = {}): Promise<Offer[]> {
+    const db = await this.database();
+    const condition = options.includeDeleted
+      ? eq(offers.listingId, listingId)
+      : and(eq(offers.listingId, listingId), isNull(offers.deletedAt));
+    return db.select().from(offers).where(condition).orderBy(asc(offers.id));
+  }
+
+  async getOffer(id: number): Promise<Offer | undefined> {
+    const db = await this.database();
+    const [offer] = await db.select().from(offers).where(eq(offers.id, id));
+    return offer;
+  }
+
+  async updateOffer(id: number, offer: Partial<InsertOffer>, netSheet?: NetSheet): Promise<Offer | undefined> {
+    const db = await this.database();
+    const [updatedOffer] = await db
+      .update(offers)
+      .set({
+        ...toOfferColumns(offer),
+        ...(netSheet && { netProceeds: String(netSheet.netProceeds), netSheet }),
+        ...(offer.contingencies !== undefined && { riskScore: calculateRiskScore(offer) }),
+      })
+      .where(eq(offers.id, id))
+      .returning();
+    return updatedOffer;
+  }
+  
+  async deleteOffer(id: number): Promise<Offer | undefined> {
+    const db = await this.database();
+    const [deletedOffer] = await db
+      .update(offers)
+      .set({ deletedAt: new Date() })
+      .where(eq(offers.id, id))
+      .returning();
+    return deletedOffer;
+  }
+
+  async updateOfferScores(id: number, scores: Pick<Offer, "overallScore" | "scoreBreakdown">): Promise<Offer | undefined> {
+    const db = await this.database();
+    const [updatedOffer] = await db
+      .update(offers)
+      .set(scores)
+      .where(eq(offers.id, id))
+      .returning();
+    return updatedOffer;
+  }
+
+  async updateOfferStatus(id: number, status: OfferStatus): Promise<Offer | undefined> {
+    const db = await this.database();
+    const [updatedOffer] = await db
+      .update(offers)
+      .set({ status })
+      .where(eq(offers.id, id))
+      .returning();
+    return updatedOffer;
+  }
+  
+  async getOfferHistory(offerId: number): Promise<Offer[]> {
+    const offer = await this.getOffer(offerId);
+    if (!offer) {
+      return [];
+    }
+    
+    // Counters can go any number of levels deep, so walk the listing's offers.
+    // Deleted rounds stay in so the thread doesn't fall apart.
+    return collectNegotiationThread(await this.getOffers(offer.listingId, { includeDeleted: true }), offerId);
+  }
+
+  // Offer status history methods
+  async createOfferStatusEvent(event: InsertOfferStatusEvent): Promise<OfferStatusEvent> {
+    const db = await this.database();
+    const [newEvent] = await db.insert(offerStatusEvents).values(event).returning();
+    return newEvent;
+  }
+
+  async getOfferStatusEvents(offerId: number): Promise<OfferStatusEvent[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(offerStatusEvents)
+      .where(eq(offerStatusEvents.offerId, offerId))
+      .orderBy(asc(offerStatusEvents.createdAt), asc(offerStatusEvents.id));
+  }
+
+  // Listing priorities methods
+  async createListingPriorities(priorities: InsertListingPriorities): Promise<ListingPriorities> {
+    const db = await this.database();
+    const [newPriorities] = await db.insert(listingPriorities).values(priorities).returning();
+    return newPriorities;
+  }
+
+  async getListingPriorities(listingId: number): Promise<ListingPriorities | undefined> {
+    const db = await this.database();
+    const [priorities] = await db
+      .select()
+      .from(listingPriorities)
+      .where(eq(listingPriorities.listingId, listingId));
+    return priorities;
+  }
+
+  async updateListingPriorities(listingId: number, priorities: Partial<InsertListingPriorities>): Promise<ListingPriorities | undefined> {
+    const existingPriorities = await this.getListingPriorities(listingId);
+    
+    if (!existingPriorities) {
+      // Create new priorities if they don't exist
+      return this.createListingPriorities({ ...priorities, listingId } as InsertListingPriorities);
+    }
+    
+    const db = await this.database();
+    const [updatedPriorities] = await db
+      .update(listingPriorities)
+      .set(priorities)
+      .where(eq(listingPriorities.id, existingPriorities.id))
+      .returning();
+    return updatedPriorities;
+  }
+
+  // Usage tracking methods
+  async createUsageEvent(event: InsertUsageEvent): Promise<UsageEvent> {
+    const db = await this.database();
+    const [newEvent] = await db
+      .insert(usageEvents)
+      .values({ ...event, amount: String(event.amount) })
+      .returning();
+    return newEvent;
+  }
+
+  async getUserUsageEvents(userId: number): Promise<UsageEvent[]> {
+    const db = await this.database();
+    return db.select().from(usageEvents).where(eq(usageEvents.userId, userId)).orderBy(asc(usageEvents.id));
+  }
+
+  async markUsageEventAsProcessed(id: number, stripeInvoiceId?: string, stripeUsageRecordId?: string): Promise<UsageEvent> {
+    const event = await this.getUsageEvent(id);
+    if (!event) {
+      throw new Error('Usage event not found');
+    }
+    
+    const db = await this.database();
+    const [updatedEvent] = await db
+      .update(usageEvents)
+      .set({
+        processed: true,
+        stripeInvoiceId: stripeInvoiceId || event.stripeInvoiceId,
+        stripeUsageRecordId: stripeUsageRecordId || event.stripeUsageRecordId
+      })
+      .where(eq(usageEvents.id, id))
+      .returning();
+    return updatedEvent;
+  }
+  
+  private async getUsageEvent(id: number): Promise<UsageEvent | undefined> {
+    const db = await this.database();
+    const [event] = await db.select().from(usageEvents).where(eq(usageEvents.id, id));
+    return event;
+  }
+
+  // Document methods
+  async createDocument(document: InsertDocument): Promise<Document> {
+    const db = await this.database();
+    const [newDocument] = await db.insert(documents).values(document).returning();
+    return newDocument;
+  }
+
+  async getDocument(id: number): Promise<Document | undefined> {
+    const db = await this.database();
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByOffer(offerId: number): Promise<Document[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(documents)
+      .where(eq(documents.offerId, offerId))
+      .orderBy(asc(documents.id));
+  }
+
+  async updateDocument(id: number, changes: DocumentUpdate): Promise<Document | undefined> {
+    const db = await this.database();
+    const [updatedDocument] = await db
+      .update(documents)
+      .set(changes)
+      .where(eq(documents.id, id))
+      .returning();
+    return updatedDocument;
+  }
+
+  // Document extraction methods
+  async createDocumentExtraction(extraction: InsertDocumentExtraction): Promise<DocumentExtraction> {
+    const db = await this.database();
+    const [newExtraction] = await db.insert(documentExtractions).values(extraction).returning();
+    return newExtraction;
+  }
+
+  async getDocumentExtraction(id: number): Promise<DocumentExtraction | undefined> {
+    const db = await this.database();
+    const [extraction] = await db.select().from(documentExtractions).where(eq(documentExtractions.id, id));
+    return extraction;
+  }
+
+  async getDocumentExtractionsByStatus(statuses: ExtractionStatus[]): Promise<DocumentExtraction[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(documentExtractions)
+      .where(inArray(documentExtractions.status, statuses))
+      .orderBy(asc(documentExtractions.id));
+  }
+
+  async getDocumentExtractionsByListing(listingId: number): Promise<DocumentExtraction[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(documentExtractions)
+      .where(eq(documentExtractions.listingId, listingId))
+      .orderBy(asc(documentExtractions.id));
+  }
+
+  async getDocumentExtractionsByBatch(batchId: string): Promise<DocumentExtraction[]> {
+    const db = await this.database();
+    return db
+      .select()
+      .from(documentExtractions)
+      .where(eq(documentExtractions.batchId, batchId))
+      .orderBy(asc(documentExtractions.id));
+  }
+
+  async updateDocumentExtraction(id: number, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined> {
+    const db = await this.database();
+    const [updatedExtraction] = await db
+      .update(documentExtractions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(documentExtractions.id, id))
+      .returning();
+    return updatedExtraction;
+  }
+
+  async claimDocumentExtraction(id: number, from: ExtractionStatus, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined> {
+    const db = await this.database();
+    const [claimedExtraction] = await db
+      .update(documentExtractions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(documentExtractions.id, id), eq(documentExtractions.status, from)))
+      .returning();
+    return claimedExtraction;
+  }
+
+  async claimDocumentExtractionReview(id: number, changes: DocumentExtractionUpdate): Promise<DocumentExtraction | undefined> {
+    const db = await this.database();
+    const [claimedExtraction] = await db
+      .update(documentExtractions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(
+        eq(documentExtractions.id, id),
+        isNull(documentExtractions.offerId),
+        isNull(documentExtractions.dismissedAt),
+        isNull(documentExtractions.reviewedAt),
+      ))
+      .returning();
+    return claimedExtraction;
+  }
+}
+
+// Numeric columns are strings in Postgres, while the insert schema parses them to numbers
+function toListingColumns(listing: Partial<InsertListing>): Partial<typeof listings.$inferInsert> {
+  const { price, loanBalance, annualPropertyTax, hoaMonthlyDues, bathrooms, ...rest } = listing;
+  return {
+    ...rest,
+    ...(price !== undefined && { price: String(price) }),
+    ...(loanBalance !== undefined && { loanBalance: loanBalance === null ? null : String(loanBalance) }),
+    ...(annualPropertyTax !== undefined && { annualPropertyTax: String(annualPropertyTax) }),
+    ...(hoaMonthlyDues !== undefined && { hoaMonthlyDues: String(hoaMonthlyDues) }),
+    ...(bathrooms !== undefined && { bathrooms: String(bathrooms) }),
+  };
+}
+
+function toOfferColumns(offer: Partial<InsertOffer>): Partial<typeof offers.$inferInsert> {
+  const { price, sellerConcessions, ...rest } = offer;
+  return {
+    ...rest,
+    ...(price !== undefined && { price: String(price) }),
+    ...(sellerConcessions !== undefined && { sellerConcessions: String(sellerConcessions) }),
+  };
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is configured, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(process.env.DATABASE_URL)
+  : new MemStorage();
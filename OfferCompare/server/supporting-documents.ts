@@ -0,0 +1,104 @@
+import { DocumentKind, SupportingDocumentTerms } from "@shared/documents";
+import { FieldCitation } from "@shared/extraction";
+import type { ParsedDocument } from "./document-parser";
+
+// Reads the few facts that matter from the documents that come with an offer:
+// how much a pre-approval letter approves and until when, and the balance on a
+// proof of funds. These letters are short and worded alike, so rules are
+// enough and nothing is sent to a model.
+
+const MONEY = String.raw`\$\s*([\d,]+(?:\.\d{2})?)`;
+const DATE = String.raw`((?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{1,2},?\s+\d{4}|\d{1,2}/\d{1,2}/\d{4}|\d{4}-\d{2}-\d{2})`;
+
+// "pre-approved for a loan amount of $480,000", "Loan Amount: $480,000"
+const LOAN_AMOUNT_PATTERNS = [
+  new RegExp(String.raw`\b(?:approved\s+loan\s+amount|loan\s+amount|maximum\s+loan\s+amount)\s*(?:of|:)?\s*(?:up\s+to\s+)?${MONEY}`, "i"),
+  new RegExp(String.raw`\b(?:pre-?approved|approved)\b[^$\n]{0,60}?(?:up\s+to|for|of|in\s+the\s+amount\s+of)\s+(?:a\s+(?:loan|mortgage)\s+(?:amount\s+)?of\s+)?${MONEY}`, "i"),
+];
+
+// "valid through December 31, 2026", "Expiration Date: 12/31/2026"
+const EXPIRY_PATTERN = new RegExp(String.raw`\b(?:valid\s+(?:through|until|thru)|expires?(?:\s+on)?|expiration(?:\s+date)?\s*:?)\s*:?\s*${DATE}`, "i");
+
+// "Available Balance: $612,000.00"
+const FUNDS_PATTERN = new RegExp(String.raw`\b(?:available|total|ending|current|account)\s+(?:balance|funds|assets)\s*(?:of|:)?\s*${MONEY}`, "i");
+
+// "Lender: Example Home Loans" or a letterhead line naming a lender or bank
+const LENDER_LABEL_PATTERN = /^[ \t]*(?:lender|bank|institution|financial institution)[ \t]*:[ \t]*(.+)$/im;
+const LENDER_NAME_PATTERN = /^[ \t]*([A-Z][\w&.,' -]{2,60}\b(?:Bank|Mortgage|Home Loans|Lending|Credit Union|Financial|Funding|Savings)\b[\w&.,' -]{0,20})[ \t]*$/m;
+
+interface Found<T> {
+  value: T;
+  citation: FieldCitation;
+}
+
+// First match of any of the patterns, checking every page in order
+function findFirst<T>(document: ParsedDocument, patterns: RegExp[], toValue: (match: RegExpExecArray) => T | null): Found<T> | null {
+  for (const page of document.pages) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(page.text);
+      const value = match ? toValue(match) : null;
+      if (match && value != null) {
+        return {
+          value,
+          citation: { pageNumber: page.pageNumber, quote: match[0].trim(), start: match.index, end: match.index + match[0].length },
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function parseMoney(text: string): number | null {
+  const amount = Number(text.replace(/[$,\s]/g, ""));
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+// ISO date of a date written in a letter, e.g. "December 31, 2026" or "12/31/2026"
+function parseDate(text: string): string | null {
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const time = us
+    ? Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2]))
+    : Date.parse(`${text.replace(",", "")} UTC`);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+function findLender(document: ParsedDocument): Found<string> | null {
+  return findFirst(document, [LENDER_LABEL_PATTERN, LENDER_NAME_PATTERN], match => match[1].trim() || null);
+}
+
+/**
+ * What a pre-approval letter or proof of funds states. Null for kinds that
+ * aren't read this way.
+ */
+export function readSupportingDocument(kind: DocumentKind, document: ParsedDocument): SupportingDocumentTerms | null {
+  if (kind !== "pre_approval" && kind !== "proof_of_funds") {
+    return null;
+  }
+
+  const lender = findLender(document);
+  const loanAmount = kind === "pre_approval"
+    ? findFirst(document, LOAN_AMOUNT_PATTERNS, match => parseMoney(match[1]))
+    : null;
+  const expiresOn = kind === "pre_approval"
+    ? findFirst(document, [EXPIRY_PATTERN], match => parseDate(match[1]))
+    : null;
+  const fundsAmount = kind === "proof_of_funds"
+    ? findFirst(document, [FUNDS_PATTERN], match => parseMoney(match[1]))
+    : null;
+
+  const citations: SupportingDocumentTerms["citations"] = {};
+  ([["lender", lender], ["loanAmount", loanAmount], ["expiresOn", expiresOn], ["fundsAmount", fundsAmount]] as const)
+    .forEach(([field, found]) => {
+      if (found) {
+        citations[field] = found.citation;
+      }
+    });
+
+  return {
+    lender: lender?.value ?? null,
+    loanAmount: loanAmount?.value ?? null,
+    expiresOn: expiresOn?.value ?? null,
+    fundsAmount: fundsAmount?.value ?? null,
+    citations,
+  };
+}
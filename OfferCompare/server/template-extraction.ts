@@ -0,0 +1,212 @@
+import {
+  CONTINGENCY_PERIODS,
+  CONTINGENCY_PERIOD_NAMES,
+  EXTRACTED_FIELDS,
+  ExtractedField,
+  ExtractedOffer,
+  ExtractionEvidence,
+  FINANCING_TYPE_LABELS,
+  FinancingType,
+  FormTerms,
+} from "@shared/extraction";
+import type { ParsedDocument } from "./document-parser";
+import { ClaimedEvidence, verifyEvidence } from "./extraction-evidence";
+import type { OfferExtraction } from "./extraction-provider";
+import { AnchorRule, FORM_TEMPLATES, FormTemplate, LOAN_TYPE_NAMES } from "./form-templates";
+
+// Reads recognised standard forms with the anchor rules in form-templates.ts.
+
+// Confidence of a value read from its place on a known form, and of one worked out from other values
+const TEMPLATE_CONFIDENCE = 0.9;
+const DERIVED_CONFIDENCE = 0.7;
+
+const DEFAULT_WINDOW = 300;
+// Quotes longer than this cite only the value, not the label before it
+const MAX_QUOTE_LENGTH = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface RuleMatch {
+  value: string;
+  pageNumber: number;
+  quote: string;
+}
+
+/**
+ * The standard form the document is on, if it's one we have a template for
+ */
+export function recognizeForm(document: ParsedDocument): FormTemplate | undefined {
+  return FORM_TEMPLATES.find(template => template.identifiers.every(pattern => pattern.test(document.text)));
+}
+
+function applyRule(document: ParsedDocument, rule: AnchorRule | undefined): RuleMatch | null {
+  if (!rule) {
+    return null;
+  }
+
+  for (const page of document.pages) {
+    const text = page.text;
+    const starts = rule.anchor
+      ? Array.from(text.matchAll(new RegExp(rule.anchor.source, rule.anchor.flags.replace("g", "") + "g")))
+      : [null];
+
+    for (const anchor of starts) {
+      const anchorStart = anchor?.index ?? 0;
+      const searchFrom = anchor ? anchorStart + anchor[0].length : 0;
+      const searchIn = anchor ? text.slice(searchFrom, searchFrom + (rule.within ?? DEFAULT_WINDOW)) : text;
+      const match = rule.value.exec(searchIn);
+      if (!match) {
+        continue;
+      }
+
+      // Blanks like "17 (or __)" put the filled-in number in a later group
+      const value = match.slice(1).filter(group => group !== undefined).pop() ?? match[0];
+      const valueEnd = searchFrom + (match.index ?? 0) + match[0].length;
+      const quote = anchor && valueEnd - anchorStart <= MAX_QUOTE_LENGTH
+        ? text.slice(anchorStart, valueEnd)
+        : match[0];
+      return { value: value.trim(), pageNumber: page.pageNumber, quote: quote.trim() };
+    }
+  }
+  return null;
+}
+
+function parseMoney(text: string | undefined): number | null {
+  if (text === undefined) {
+    return null;
+  }
+  const amount = Number(text.replace(/[$,\s]/g, ""));
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+function parseDays(text: string | undefined): number | null {
+  const days = Number(text);
+  return Number.isInteger(days) && days > 0 ? days : null;
+}
+
+// ISO date of a date written on a form, e.g. "November 20, 2026" or "11/20/2026"
+function parseFormDate(text: string | undefined): string | null {
+  if (!text) {
+    return null;
+  }
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const time = us
+    ? Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2]))
+    : Date.parse(`${text.replace(",", "")} UTC`);
+  return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10);
+}
+
+// Days from today until a closing date, or null once it has passed
+function daysUntil(isoDate: string): number | null {
+  const today = new Date();
+  const start = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  const days = Math.round((Date.parse(isoDate) - start) / DAY_MS);
+  return days > 0 ? days : null;
+}
+
+function claimed(match: RuleMatch | null, confidence = TEMPLATE_CONFIDENCE): ClaimedEvidence | undefined {
+  return match ? { confidence, pageNumber: match.pageNumber, quote: match.quote } : undefined;
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString("en-US")}`;
+}
+
+/**
+ * Read the offer from a recognised form with its template
+ */
+export function extractWithTemplate(template: FormTemplate, document: ParsedDocument): OfferExtraction {
+  const buyer = applyRule(document, template.buyerName);
+  const price = applyRule(document, template.price);
+  const earnestMoney = applyRule(document, template.earnestMoney);
+  const loanAmount = applyRule(document, template.loanAmount);
+  const loanType = applyRule(document, template.loanType);
+  const allCash = applyRule(document, template.allCash);
+  const closeDays = applyRule(document, template.closeDays);
+  const closeDate = applyRule(document, template.closeDate);
+
+  const periods: FormTerms["contingencyPeriods"] = {};
+  const periodMatches: RuleMatch[] = [];
+  CONTINGENCY_PERIODS.forEach(period => {
+    const match = applyRule(document, template.contingencyPeriods[period]);
+    const days = parseDays(match?.value);
+    if (match && days != null) {
+      periods[period] = days;
+      periodMatches.push(match);
+    }
+  });
+
+  const loan = parseMoney(loanAmount?.value);
+  let financingType: FinancingType | null = loanType ? LOAN_TYPE_NAMES[loanType.value.toLowerCase()] ?? "other" : null;
+  if (allCash || (loan === 0 && !loanType)) {
+    financingType = "cash";
+  }
+
+  const form: FormTerms = {
+    formId: template.id,
+    formName: template.name,
+    earnestMoney: parseMoney(earnestMoney?.value),
+    financingType,
+    loanAmount: financingType === "cash" ? null : loan || null,
+    contingencyPeriods: periods,
+    closeDate: parseFormDate(closeDate?.value),
+  };
+
+  // A financed offer is contingent on the loan even when the form gives no period for it
+  const financed = financingType != null && financingType !== "cash" || (form.loanAmount ?? 0) > 0;
+  const contingencies = CONTINGENCY_PERIODS
+    .filter(period => periods[period] != null || (period === "loan" && financed))
+    .map(period => CONTINGENCY_PERIOD_NAMES[period]);
+  const knowsContingencies = periodMatches.length > 0 || financingType != null;
+
+  const buyerName = buyer?.value.replace(/_+/g, " ").replace(/\s+/g, " ").trim() || null;
+  const closingTimelineDays = parseDays(closeDays?.value) ?? (form.closeDate ? daysUntil(form.closeDate) : null);
+
+  const offer: ExtractedOffer = {
+    buyerName,
+    buyerType: financingType === "cash" ? "cash" : null,
+    price: parseMoney(price?.value) || null,
+    commission: null,
+    closingTimelineDays,
+    contingencies: knowsContingencies ? contingencies : null,
+    notes: formNotes(form),
+  };
+
+  const sources: Record<ExtractedField, ClaimedEvidence | undefined> = {
+    buyerName: claimed(buyer),
+    buyerType: claimed(allCash ?? loanAmount),
+    price: claimed(price),
+    commission: undefined,
+    // A closing date only gives a number of days counted from today
+    closingTimelineDays: closeDays ? claimed(closeDays) : claimed(closeDate, DERIVED_CONFIDENCE),
+    contingencies: claimed(periodMatches[0] ?? loanType ?? allCash ?? loanAmount),
+    notes: claimed(earnestMoney ?? closeDate ?? periodMatches[0] ?? null, DERIVED_CONFIDENCE),
+  };
+  const evidence: ExtractionEvidence = {};
+  EXTRACTED_FIELDS.forEach(field => {
+    evidence[field] = verifyEvidence(document, sources[field], offer[field] != null);
+  });
+
+  return { offer, evidence, form };
+}
+
+// The form's terms that have no field of their own on the offer
+function formNotes(form: FormTerms): string | null {
+  const notes: string[] = [];
+  if (form.earnestMoney != null) {
+    notes.push(`Earnest money deposit: ${formatMoney(form.earnestMoney)}.`);
+  }
+  if (form.financingType && form.financingType !== "cash") {
+    const loan = form.loanAmount != null ? ` of ${formatMoney(form.loanAmount)}` : "";
+    notes.push(`Financing: ${FINANCING_TYPE_LABELS[form.financingType]}${loan}.`);
+  }
+  CONTINGENCY_PERIODS.forEach(period => {
+    const days = form.contingencyPeriods[period];
+    if (days != null) {
+      notes.push(`${CONTINGENCY_PERIOD_NAMES[period]} contingency: ${days} days.`);
+    }
+  });
+  if (form.closeDate) {
+    notes.push(`Closing date: ${form.closeDate}.`);
+  }
+  return notes.length > 0 ? `From ${form.formName}. ${notes.join(" ")}` : null;
+}
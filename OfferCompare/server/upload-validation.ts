@@ -0,0 +1,249 @@
+import net from "net";
+import path from "path";
+import multer from "multer";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { DocumentFormat, countDocumentPages, detectDocumentFormat } from "./document-parser";
+
+// Checks every uploaded offer document before it is read or stored: size,
+// type (by the file's contents, not what the browser says), page count, a
+// safe file name and, when a scanner is configured, malware.
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024; // 10MB, as the upload forms say
+
+// Most documents one batch upload takes, enough for a busy offer deadline
+export const MAX_BATCH_DOCUMENTS = 20;
+
+// Longer documents are almost never an offer, and take minutes to OCR
+export const MAX_DOCUMENT_PAGES = 50;
+
+const MAX_FILE_NAME_LENGTH = 120;
+
+// Extensions we accept, and the format the contents have to be
+const EXTENSION_FORMATS: Record<string, DocumentFormat[]> = {
+  ".pdf": ["pdf"],
+  ".docx": ["docx", "doc"], // password-protected .docx files are OLE containers
+  ".doc": ["doc"],
+  ".txt": ["txt"],
+  ".png": ["image"],
+  ".jpg": ["image"],
+  ".jpeg": ["image"],
+};
+
+export type UploadRejectionReason =
+  | "empty_file"
+  | "too_large"
+  | "too_many_files"
+  | "unsupported_type"
+  | "type_mismatch"
+  | "too_many_pages"
+  | "malware_detected"
+  | "scan_unavailable";
+
+const REJECTION_STATUS: Record<UploadRejectionReason, number> = {
+  empty_file: 400,
+  too_large: 413,
+  too_many_files: 413,
+  unsupported_type: 415,
+  type_mismatch: 415,
+  too_many_pages: 422,
+  malware_detected: 422,
+  scan_unavailable: 503,
+};
+
+/**
+ * An upload that was turned away. `status` is the HTTP status to answer with.
+ */
+export class UploadRejectedError extends Error {
+  constructor(public reason: UploadRejectionReason, message: string, public fileName?: string) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+
+  get status(): number {
+    return REJECTION_STATUS[this.reason];
+  }
+}
+
+export interface MalwareScanResult {
+  clean: boolean;
+  threat?: string; // the signature that matched
+}
+
+export interface MalwareScanner {
+  name: string; // shown in logs, e.g. "clamav"
+  scan(data: Buffer, fileName: string): Promise<MalwareScanResult>;
+}
+
+// clamd takes streamed files in chunks of at most StreamMaxLength
+const CLAMAV_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Scans with a clamd daemon over TCP, using its INSTREAM command
+ */
+export class ClamAvScanner implements MalwareScanner {
+  name = "clamav";
+
+  constructor(private host: string, private port: number, private timeoutMs = 30 * 1000) {}
+
+  scan(data: Buffer): Promise<MalwareScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      let reply = "";
+
+      socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error("ClamAV scan timed out")));
+      socket.on("connect", () => {
+        socket.write("zINSTREAM\0");
+        for (let offset = 0; offset < data.length; offset += CLAMAV_CHUNK_BYTES) {
+          const chunk = data.subarray(offset, offset + CLAMAV_CHUNK_BYTES);
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length);
+          socket.write(size);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4)); // a zero-length chunk ends the stream
+      });
+      socket.on("data", chunk => { reply += chunk.toString("utf8"); });
+      socket.on("error", reject);
+      socket.on("close", () => {
+        // e.g. "stream: OK" or "stream: Eicar-Test-Signature FOUND"
+        const answer = reply.replace(/\0/g, "").trim();
+        const found = answer.match(/^stream: (.+) FOUND$/);
+        if (answer === "stream: OK") {
+          resolve({ clean: true });
+        } else if (found) {
+          resolve({ clean: false, threat: found[1] });
+        } else {
+          reject(new Error(`Unexpected ClamAV reply: ${answer || "none"}`));
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Create the malware scanner selected by MALWARE_SCANNER, or null to skip scanning
+ */
+export function createMalwareScanner(env: NodeJS.ProcessEnv = process.env): MalwareScanner | null {
+  const name = env.MALWARE_SCANNER || "none";
+
+  switch (name) {
+    case "none":
+      return null;
+    case "clamav":
+      return new ClamAvScanner(env.CLAMAV_HOST || "localhost", Number(env.CLAMAV_PORT || 3310));
+    default:
+      throw new Error(`Unknown malware scanner "${name}"`);
+  }
+}
+
+let malwareScanner = createMalwareScanner();
+
+/**
+ * Plug in another scanner, e.g. a cloud scanning service. Null turns scanning off.
+ */
+export function setMalwareScanner(scanner: MalwareScanner | null) {
+  malwareScanner = scanner;
+}
+
+/**
+ * A file name that is safe to store and to send back in headers: no folders,
+ * control or reserved characters, and a sensible length. The extension is kept.
+ */
+export function sanitizeFileName(fileName: string): string {
+  const baseName = fileName.split(/[\\/]/).pop() ?? "";
+  const cleaned = baseName
+    .normalize("NFC")
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.]+|[\s.]+$/g, "");
+
+  const extension = path.extname(cleaned).toLowerCase();
+  const stem = cleaned.slice(0, cleaned.length - extension.length).slice(0, MAX_FILE_NAME_LENGTH - extension.length).trim();
+  return `${stem || "document"}${extension}`;
+}
+
+export interface ValidatedUpload {
+  fileName: string; // sanitized
+  buffer: Buffer;
+  format: DocumentFormat;
+}
+
+/**
+ * Check an uploaded file and give it a safe name, or throw UploadRejectedError
+ */
+export async function validateUpload(file: Express.Multer.File): Promise<ValidatedUpload> {
+  const fileName = sanitizeFileName(file.originalname);
+  const data = file.buffer;
+
+  if (data.length === 0) {
+    throw new UploadRejectedError("empty_file", `${fileName} is empty.`, fileName);
+  }
+  // Multer stops at the limit, but check in case it's configured differently
+  if (data.length > MAX_UPLOAD_BYTES) {
+    throw new UploadRejectedError("too_large", `${fileName} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB.`, fileName);
+  }
+
+  const allowedFormats = EXTENSION_FORMATS[path.extname(fileName).toLowerCase()];
+  const format = detectDocumentFormat(data, fileName);
+  if (!allowedFormats) {
+    throw new UploadRejectedError("unsupported_type", `${fileName} isn't a supported file type. Upload a PDF, Word (.docx or .doc), text or image file.`, fileName);
+  }
+  // e.g. a renamed executable, or a photo saved as .pdf
+  if (!format || !allowedFormats.includes(format)) {
+    throw new UploadRejectedError("type_mismatch", `The contents of ${fileName} don't match its file extension.`, fileName);
+  }
+
+  const pageCount = await countDocumentPages(data, format);
+  if (pageCount != null && pageCount > MAX_DOCUMENT_PAGES) {
+    throw new UploadRejectedError("too_many_pages", `${fileName} has ${pageCount} pages. Documents can have at most ${MAX_DOCUMENT_PAGES}.`, fileName);
+  }
+
+  if (malwareScanner) {
+    let result: MalwareScanResult;
+    try {
+      result = await malwareScanner.scan(data, fileName);
+    } catch (error) {
+      console.error(`Malware scan of ${fileName} with ${malwareScanner.name} failed:`, error);
+      throw new UploadRejectedError("scan_unavailable", "Uploads can't be checked for viruses right now. Please try again later.", fileName);
+    }
+    if (!result.clean) {
+      console.warn(`Rejected ${fileName}: ${malwareScanner.name} found ${result.threat ?? "malware"}`);
+      throw new UploadRejectedError("malware_detected", `${fileName} was rejected because it may contain malware.`, fileName);
+    }
+  }
+
+  return { fileName, buffer: data, format };
+}
+
+const uploader = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_BATCH_DOCUMENTS },
+});
+
+// Answer multer's limit errors like any other rejected upload
+function handleUploadErrors(middleware: RequestHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    middleware(req, res, (err?: unknown) => {
+      if (err instanceof multer.MulterError) {
+        // Going over the batch size shows up as an unexpected extra file
+        const tooManyFiles = err.code === "LIMIT_FILE_COUNT" || (err.code === "LIMIT_UNEXPECTED_FILE" && err.field === "documents");
+        const rejection = err.code === "LIMIT_FILE_SIZE"
+          ? new UploadRejectedError("too_large", `Files must be ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB or smaller.`)
+          : tooManyFiles
+            ? new UploadRejectedError("too_many_files", `Up to ${MAX_BATCH_DOCUMENTS} documents can be uploaded at once.`)
+            : undefined;
+        if (rejection) {
+          return res.status(rejection.status).json({ message: rejection.message, reason: rejection.reason });
+        }
+        return res.status(400).json({ message: err.message });
+      }
+      next(err);
+    });
+  };
+}
+
+// The single offer document of POST /api/offers/extract
+export const uploadDocument = handleUploadErrors(uploader.single("document"));
+
+// The offer documents of a batch upload
+export const uploadDocuments = handleUploadErrors(uploader.array("documents", MAX_BATCH_DOCUMENTS));
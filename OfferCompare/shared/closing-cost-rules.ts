@@ -0,0 +1,458 @@
+// Location-specific seller closing costs: transfer taxes, mansion taxes and the
+// fees a seller customarily pays. Figures are typical published rates for
+// residential sales and should be confirmed with the title company before closing.
+
+// Bump whenever a rate in the table changes, so saved net sheets can be traced
+// back to the figures they were calculated with
+export const CLOSING_COST_RULES_VERSION = "2026.1";
+
+export interface TaxBracket {
+  from: number; // sale price where the bracket starts
+  rate: number; // fraction of the price
+}
+
+export interface TransferTaxRule {
+  name: string;
+  kind: "transferTax" | "mansionTax";
+  brackets: TaxBracket[];
+  // Marginal brackets tax only the part of the price inside each bracket;
+  // otherwise the bracket the price falls in sets the rate for the whole price
+  marginal?: boolean;
+  // Part of the tax the seller customarily pays (0 when the buyer pays it)
+  sellerShare: number;
+}
+
+export interface ClosingCostFee {
+  name: string;
+  amount: number;
+}
+
+export interface ClosingCostRule {
+  id: string;
+  name: string;
+  state: string; // two-letter code, as stored on listings
+  counties?: string[]; // county-level rules override the state rule
+  titleEscrowRate: number; // seller-paid title and escrow/settlement fees, fraction of the price
+  transferTaxes: TransferTaxRule[];
+  fees: ClosingCostFee[];
+}
+
+// Reference to the rule a net sheet was calculated with
+export interface AppliedClosingCostRule {
+  id: string;
+  name: string;
+  version: string;
+}
+
+// Used for states without an entry below
+export const DEFAULT_CLOSING_COST_RULE: ClosingCostRule = {
+  id: "default",
+  name: "National average",
+  state: "",
+  titleEscrowRate: 0.005,
+  transferTaxes: [
+    { name: "Transfer Taxes", kind: "transferTax", brackets: [{ from: 0, rate: 0.001 }], sellerShare: 1 },
+  ],
+  fees: [],
+};
+
+const NYC_COUNTIES = ["New York", "Kings", "Queens", "Bronx", "Richmond"];
+
+export const CLOSING_COST_RULES: ClosingCostRule[] = [
+  {
+    id: "CA",
+    name: "California",
+    state: "CA",
+    titleEscrowRate: 0.006,
+    transferTaxes: [
+      { name: "County Documentary Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0011 }], sellerShare: 1 },
+    ],
+    fees: [],
+  },
+  {
+    id: "CA-san-francisco",
+    name: "San Francisco, CA",
+    state: "CA",
+    counties: ["San Francisco"],
+    titleEscrowRate: 0.006,
+    transferTaxes: [
+      {
+        name: "SF Real Property Transfer Tax",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.005 },
+          { from: 250_000, rate: 0.0068 },
+          { from: 1_000_000, rate: 0.0075 },
+          { from: 5_000_000, rate: 0.0225 },
+          { from: 10_000_000, rate: 0.055 },
+          { from: 25_000_000, rate: 0.06 },
+        ],
+        sellerShare: 1,
+      },
+    ],
+    fees: [],
+  },
+  {
+    id: "CO",
+    name: "Colorado",
+    state: "CO",
+    // Sellers customarily pay for the owner's title policy
+    titleEscrowRate: 0.004,
+    transferTaxes: [
+      { name: "State Documentary Fee", kind: "transferTax", brackets: [{ from: 0, rate: 0.0001 }], sellerShare: 0 },
+    ],
+    fees: [],
+  },
+  {
+    id: "CT",
+    name: "Connecticut",
+    state: "CT",
+    titleEscrowRate: 0.002,
+    transferTaxes: [
+      {
+        name: "State Conveyance Tax",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.0075 },
+          { from: 800_000, rate: 0.0125 },
+          { from: 2_500_000, rate: 0.0225 },
+        ],
+        marginal: true,
+        sellerShare: 1,
+      },
+      { name: "Municipal Conveyance Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0025 }], sellerShare: 1 },
+    ],
+    fees: [{ name: "Seller Attorney Fee", amount: 1_000 }],
+  },
+  {
+    id: "DE",
+    name: "Delaware",
+    state: "DE",
+    titleEscrowRate: 0.002,
+    transferTaxes: [
+      { name: "Realty Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.04 }], sellerShare: 0.5 },
+    ],
+    fees: [],
+  },
+  {
+    id: "FL",
+    name: "Florida",
+    state: "FL",
+    // Sellers pay for the owner's title policy in most counties
+    titleEscrowRate: 0.0055,
+    transferTaxes: [
+      { name: "Documentary Stamp Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.007 }], sellerShare: 1 },
+    ],
+    fees: [],
+  },
+  {
+    id: "FL-miami-dade",
+    name: "Miami-Dade County, FL",
+    state: "FL",
+    counties: ["Miami-Dade"],
+    // The buyer pays for the owner's title policy in Miami-Dade
+    titleEscrowRate: 0.002,
+    transferTaxes: [
+      { name: "Documentary Stamp Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.006 }], sellerShare: 1 },
+    ],
+    fees: [],
+  },
+  {
+    id: "HI",
+    name: "Hawaii",
+    state: "HI",
+    titleEscrowRate: 0.004,
+    transferTaxes: [
+      {
+        name: "State Conveyance Tax",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.001 },
+          { from: 600_000, rate: 0.002 },
+          { from: 1_000_000, rate: 0.003 },
+          { from: 2_000_000, rate: 0.005 },
+          { from: 4_000_000, rate: 0.007 },
+          { from: 6_000_000, rate: 0.009 },
+          { from: 10_000_000, rate: 0.0125 },
+        ],
+        sellerShare: 1,
+      },
+    ],
+    fees: [],
+  },
+  {
+    id: "IL",
+    name: "Illinois",
+    state: "IL",
+    titleEscrowRate: 0.004,
+    transferTaxes: [
+      { name: "State Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.001 }], sellerShare: 1 },
+      { name: "County Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0005 }], sellerShare: 1 },
+    ],
+    fees: [{ name: "Seller Attorney Fee", amount: 750 }],
+  },
+  {
+    id: "MA",
+    name: "Massachusetts",
+    state: "MA",
+    titleEscrowRate: 0.001,
+    transferTaxes: [
+      { name: "Deeds Excise Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.00456 }], sellerShare: 1 },
+    ],
+    fees: [{ name: "Seller Attorney Fee", amount: 1_000 }],
+  },
+  {
+    id: "MI",
+    name: "Michigan",
+    state: "MI",
+    titleEscrowRate: 0.004,
+    transferTaxes: [
+      { name: "State Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0075 }], sellerShare: 1 },
+      { name: "County Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0011 }], sellerShare: 1 },
+    ],
+    fees: [],
+  },
+  {
+    id: "MN",
+    name: "Minnesota",
+    state: "MN",
+    titleEscrowRate: 0.002,
+    transferTaxes: [
+      { name: "State Deed Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0033 }], sellerShare: 1 },
+    ],
+    fees: [],
+  },
+  {
+    id: "NH",
+    name: "New Hampshire",
+    state: "NH",
+    titleEscrowRate: 0.002,
+    transferTaxes: [
+      { name: "Real Estate Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.015 }], sellerShare: 0.5 },
+    ],
+    fees: [],
+  },
+  {
+    id: "NJ",
+    name: "New Jersey",
+    state: "NJ",
+    titleEscrowRate: 0.001,
+    transferTaxes: [
+      {
+        name: "Realty Transfer Fee",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.004 },
+          { from: 150_000, rate: 0.0067 },
+          { from: 200_000, rate: 0.0078 },
+          { from: 550_000, rate: 0.0096 },
+          { from: 1_000_000, rate: 0.0121 },
+        ],
+        marginal: true,
+        sellerShare: 1,
+      },
+      {
+        name: "Mansion Tax",
+        kind: "mansionTax",
+        brackets: [
+          { from: 0, rate: 0 },
+          { from: 1_000_000, rate: 0.01 },
+          { from: 2_000_000, rate: 0.02 },
+          { from: 2_500_000, rate: 0.025 },
+          { from: 3_000_000, rate: 0.03 },
+          { from: 3_500_000, rate: 0.035 },
+        ],
+        sellerShare: 1,
+      },
+    ],
+    fees: [{ name: "Seller Attorney Fee", amount: 1_500 }],
+  },
+  {
+    id: "NY",
+    name: "New York",
+    state: "NY",
+    // The buyer pays for title insurance in New York
+    titleEscrowRate: 0,
+    transferTaxes: [
+      { name: "NYS Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.004 }], sellerShare: 1 },
+      {
+        name: "Mansion Tax",
+        kind: "mansionTax",
+        brackets: [
+          { from: 0, rate: 0 },
+          { from: 1_000_000, rate: 0.01 },
+        ],
+        sellerShare: 0,
+      },
+    ],
+    fees: [{ name: "Seller Attorney Fee", amount: 2_000 }],
+  },
+  {
+    id: "NY-nyc",
+    name: "New York City, NY",
+    state: "NY",
+    counties: NYC_COUNTIES,
+    titleEscrowRate: 0,
+    transferTaxes: [
+      {
+        name: "NYS Transfer Tax",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.004 },
+          { from: 3_000_000, rate: 0.0065 },
+        ],
+        sellerShare: 1,
+      },
+      {
+        name: "NYC Real Property Transfer Tax",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.01 },
+          { from: 500_000, rate: 0.01425 },
+        ],
+        sellerShare: 1,
+      },
+      {
+        name: "Mansion Tax",
+        kind: "mansionTax",
+        brackets: [
+          { from: 0, rate: 0 },
+          { from: 1_000_000, rate: 0.01 },
+          { from: 2_000_000, rate: 0.0125 },
+          { from: 3_000_000, rate: 0.015 },
+          { from: 5_000_000, rate: 0.0225 },
+          { from: 10_000_000, rate: 0.0325 },
+          { from: 15_000_000, rate: 0.035 },
+          { from: 20_000_000, rate: 0.0375 },
+          { from: 25_000_000, rate: 0.039 },
+        ],
+        sellerShare: 0,
+      },
+    ],
+    fees: [{ name: "Seller Attorney Fee", amount: 3_000 }],
+  },
+  {
+    id: "PA",
+    name: "Pennsylvania",
+    state: "PA",
+    titleEscrowRate: 0.001,
+    transferTaxes: [
+      { name: "State Realty Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.01 }], sellerShare: 0.5 },
+      { name: "Local Realty Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.01 }], sellerShare: 0.5 },
+    ],
+    fees: [],
+  },
+  {
+    id: "PA-philadelphia",
+    name: "Philadelphia, PA",
+    state: "PA",
+    counties: ["Philadelphia"],
+    titleEscrowRate: 0.001,
+    transferTaxes: [
+      { name: "State Realty Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.01 }], sellerShare: 0.5 },
+      { name: "Philadelphia Realty Transfer Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.03578 }], sellerShare: 0.5 },
+    ],
+    fees: [],
+  },
+  {
+    id: "TX",
+    name: "Texas",
+    state: "TX",
+    // No transfer tax, but sellers pay for the owner's title policy
+    titleEscrowRate: 0.0065,
+    transferTaxes: [],
+    fees: [],
+  },
+  {
+    id: "VA",
+    name: "Virginia",
+    state: "VA",
+    titleEscrowRate: 0.001,
+    transferTaxes: [
+      { name: "Grantor Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.001 }], sellerShare: 1 },
+      { name: "Recordation Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.0025 }], sellerShare: 0 },
+    ],
+    fees: [],
+  },
+  {
+    id: "WA",
+    name: "Washington",
+    state: "WA",
+    titleEscrowRate: 0.005,
+    transferTaxes: [
+      {
+        name: "State Real Estate Excise Tax",
+        kind: "transferTax",
+        brackets: [
+          { from: 0, rate: 0.011 },
+          { from: 525_000, rate: 0.0128 },
+          { from: 1_525_000, rate: 0.0275 },
+          { from: 3_025_000, rate: 0.03 },
+        ],
+        marginal: true,
+        sellerShare: 1,
+      },
+      { name: "Local Real Estate Excise Tax", kind: "transferTax", brackets: [{ from: 0, rate: 0.005 }], sellerShare: 1 },
+    ],
+    fees: [],
+  },
+];
+
+/**
+ * Rule for a listing's location: the county rule if there is one, then the
+ * state rule, then the national default
+ */
+export function findClosingCostRule(state?: string | null, county?: string | null): ClosingCostRule {
+  const stateCode = (state || "").trim().toUpperCase();
+  const countyName = normalizeCounty(county);
+  const stateRules = CLOSING_COST_RULES.filter(rule => rule.state === stateCode);
+
+  if (countyName) {
+    const countyRule = stateRules.find(rule =>
+      rule.counties?.some(name => normalizeCounty(name) === countyName)
+    );
+    if (countyRule) {
+      return countyRule;
+    }
+  }
+
+  return stateRules.find(rule => !rule.counties) ?? DEFAULT_CLOSING_COST_RULE;
+}
+
+/**
+ * Seller's part of a transfer or mansion tax at the given sale price
+ */
+export function calculateTransferTax(tax: TransferTaxRule, price: number): number {
+  const brackets = [...tax.brackets].sort((a, b) => a.from - b.from);
+  let total = 0;
+
+  if (tax.marginal) {
+    brackets.forEach((bracket, i) => {
+      const upTo = i + 1 < brackets.length ? Math.min(price, brackets[i + 1].from) : price;
+      if (upTo > bracket.from) {
+        total += (upTo - bracket.from) * bracket.rate;
+      }
+    });
+  } else {
+    const bracket = brackets.filter(b => price >= b.from).pop();
+    total = bracket ? price * bracket.rate : 0;
+  }
+
+  return Math.round(total * tax.sellerShare * 100) / 100;
+}
+
+/**
+ * Record of the rule and table version a net sheet was calculated with
+ */
+export function appliedRule(rule: ClosingCostRule): AppliedClosingCostRule {
+  return { id: rule.id, name: rule.name, version: CLOSING_COST_RULES_VERSION };
+}
+
+// "Kings County", "kings" and "Kings Co." all refer to the same county
+function normalizeCounty(county?: string | null): string {
+  return (county || "")
+    .toLowerCase()
+    .replace(/\b(county|co|parish|borough)\b\.?/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+// Commission terms of an offer. Each side is stored with its basis, so a value
+// of 3 can never be mistaken for $3 (or 3000 for 3000%).
+
+export const COMMISSION_BASES = ["percent", "flat"] as const;
+export type CommissionBasis = typeof COMMISSION_BASES[number];
+
+export const COMMISSION_EXTRA_KINDS = ["bonus", "referralFee"] as const;
+export type CommissionExtraKind = typeof COMMISSION_EXTRA_KINDS[number];
+
+export const COMMISSION_EXTRA_LABELS: Record<CommissionExtraKind, string> = {
+  bonus: "Bonus",
+  referralFee: "Referral Fee",
+};
+
+export const commissionTermSchema = z.object({
+  basis: z.enum(COMMISSION_BASES),
+  // Percent of the sale price (3 means 3%) or a dollar amount
+  amount: z.coerce.number().min(0),
+});
+
+export const commissionExtraSchema = commissionTermSchema.extend({
+  kind: z.enum(COMMISSION_EXTRA_KINDS),
+  description: z.string().optional(),
+});
+
+export const commissionTermsSchema = z.object({
+  listingSide: commissionTermSchema,
+  buyerSide: commissionTermSchema,
+  extras: z.array(commissionExtraSchema).default([]),
+});
+
+export type CommissionTerm = z.infer<typeof commissionTermSchema>;
+export type CommissionExtra = z.infer<typeof commissionExtraSchema>;
+export type CommissionTerms = z.infer<typeof commissionTermsSchema>;
+
+export interface CommissionCharge {
+  key: "listingCommission" | "buyerCommission" | CommissionExtraKind;
+  label: string;
+  amount: number; // dollars
+  note?: string;
+}
+
+export interface CommissionBreakdown {
+  charges: CommissionCharge[];
+  total: number;
+}
+
+export const DEFAULT_COMMISSION_TERMS: CommissionTerms = {
+  listingSide: { basis: "percent", amount: 0 },
+  buyerSide: { basis: "percent", amount: 0 },
+  extras: [],
+};
+
+/**
+ * Dollar amount of a single commission term at the given sale price
+ */
+export function commissionAmount(term: CommissionTerm, price: number): number {
+  const amount = Number(term.amount) || 0;
+  const dollars = term.basis === "percent" ? (price * amount) / 100 : amount;
+  return Math.round(dollars * 100) / 100;
+}
+
+/**
+ * Every commission the seller pays at the given sale price, in dollars
+ */
+export function calculateCommission(terms: CommissionTerms | null | undefined, price: number): CommissionBreakdown {
+  if (!terms) {
+    return { charges: [], total: 0 };
+  }
+
+  const allCharges: CommissionCharge[] = [
+    {
+      key: "listingCommission",
+      label: "Listing Agent Commission",
+      amount: commissionAmount(terms.listingSide, price),
+      note: formatCommissionTerm(terms.listingSide),
+    },
+    {
+      key: "buyerCommission",
+      label: "Buyer Agent Commission",
+      amount: commissionAmount(terms.buyerSide, price),
+      note: formatCommissionTerm(terms.buyerSide),
+    },
+    ...(terms.extras || []).map((extra): CommissionCharge => ({
+      key: extra.kind,
+      label: extra.description || COMMISSION_EXTRA_LABELS[extra.kind],
+      amount: commissionAmount(extra, price),
+      note: formatCommissionTerm(extra),
+    })),
+  ];
+  const charges = allCharges.filter(charge => charge.amount > 0);
+
+  const total = Math.round(charges.reduce((sum, charge) => sum + charge.amount, 0) * 100) / 100;
+  return { charges, total };
+}
+
+/**
+ * Short description of a term, e.g. "2.5%" or "$5,000"
+ */
+export function formatCommissionTerm(term: CommissionTerm): string {
+  const amount = Number(term.amount) || 0;
+  return term.basis === "percent" ? `${amount}%` : `$${amount.toLocaleString()}`;
+}
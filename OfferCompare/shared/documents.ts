@@ -0,0 +1,136 @@
+import { EXTRACTED_FIELDS, ExtractedField, ExtractedOffer, ExtractionResult, FieldCitation } from "./extraction";
+
+// The documents an offer arrives with, and how the terms read from each one
+// are combined into a single picture of the offer.
+
+export const DOCUMENT_KINDS = ["contract", "addendum", "pre_approval", "proof_of_funds", "counter_offer", "other"] as const;
+
+export type DocumentKind = typeof DOCUMENT_KINDS[number];
+
+export const DOCUMENT_KIND_LABELS: Record<DocumentKind, string> = {
+  contract: "Purchase contract",
+  addendum: "Addendum",
+  pre_approval: "Pre-approval letter",
+  proof_of_funds: "Proof of funds",
+  counter_offer: "Counter offer",
+  other: "Other",
+};
+
+// Kinds that state offer terms, and are read like any offer document
+export const TERMS_DOCUMENT_KINDS: DocumentKind[] = ["contract", "addendum"];
+
+// What a pre-approval letter or proof of funds says about the buyer's money
+export interface SupportingDocumentTerms {
+  lender: string | null; // the lender, or the bank holding the funds
+  loanAmount: number | null; // amount the buyer is pre-approved for
+  expiresOn: string | null; // ISO date the pre-approval runs out
+  fundsAmount: number | null; // balance shown on a proof of funds
+  citations: Partial<Record<SupportingTermsField, FieldCitation>>;
+}
+
+export type SupportingTermsField = Exclude<keyof SupportingDocumentTerms, "citations">;
+
+// How the buyer is paying, put together from the supporting documents
+export interface CombinedFinancing {
+  loanAmount: number | null; // from the contract form, or else the pre-approval
+  preApprovedAmount: number | null;
+  lender: string | null;
+  preApprovalExpiresOn: string | null;
+  fundsAmount: number | null;
+}
+
+export const COMBINED_FINANCING_LABELS: Record<keyof CombinedFinancing, string> = {
+  loanAmount: "Loan Amount",
+  preApprovedAmount: "Pre-approved Amount",
+  lender: "Lender",
+  preApprovalExpiresOn: "Pre-approval Expires",
+  fundsAmount: "Proof of Funds",
+};
+
+export interface CombinedOfferTerms {
+  offer: ExtractedOffer;
+  financing: CombinedFinancing;
+  // The document each value was read from
+  sources: Partial<Record<ExtractedField | keyof CombinedFinancing, number>>;
+}
+
+// The current version of one of an offer's documents, with what was read from it
+export interface OfferDocumentTerms {
+  documentId: number;
+  kind: DocumentKind;
+  extraction: ExtractionResult | null; // contracts and addenda
+  terms: SupportingDocumentTerms | null; // pre-approval letters and proof of funds
+}
+
+/**
+ * Put the terms of all of an offer's documents together. Addenda amend the
+ * contract, so their values win, the latest addendum last. The loan amount
+ * comes from the contract when it states one and from the pre-approval
+ * letter otherwise.
+ */
+export function combineOfferDocuments(documents: OfferDocumentTerms[]): CombinedOfferTerms {
+  const offer = Object.fromEntries(EXTRACTED_FIELDS.map(field => [field, null])) as unknown as ExtractedOffer;
+  const financing: CombinedFinancing = {
+    loanAmount: null,
+    preApprovedAmount: null,
+    lender: null,
+    preApprovalExpiresOn: null,
+    fundsAmount: null,
+  };
+  const sources: CombinedOfferTerms["sources"] = {};
+
+  function setFinancing<K extends keyof CombinedFinancing>(key: K, value: CombinedFinancing[K], documentId: number) {
+    if (value != null) {
+      financing[key] = value;
+      sources[key] = documentId;
+    }
+  }
+
+  const byOrder = (kind: DocumentKind) => documents
+    .filter(document => document.kind === kind)
+    .sort((a, b) => a.documentId - b.documentId);
+
+  [...byOrder("contract"), ...byOrder("addendum")].forEach(({ documentId, extraction }) => {
+    if (!extraction) {
+      return;
+    }
+    EXTRACTED_FIELDS.forEach(field => {
+      const value = extraction.offer[field];
+      if (value != null) {
+        (offer as Record<ExtractedField, unknown>)[field] = value;
+        sources[field] = documentId;
+      }
+    });
+    setFinancing("loanAmount", extraction.form?.loanAmount ?? null, documentId);
+  });
+
+  byOrder("pre_approval").forEach(({ documentId, terms }) => {
+    setFinancing("preApprovedAmount", terms?.loanAmount ?? null, documentId);
+    setFinancing("lender", terms?.lender ?? null, documentId);
+    setFinancing("preApprovalExpiresOn", terms?.expiresOn ?? null, documentId);
+  });
+  if (financing.loanAmount == null && financing.preApprovedAmount != null) {
+    setFinancing("loanAmount", financing.preApprovedAmount, sources.preApprovedAmount!);
+  }
+
+  byOrder("proof_of_funds").forEach(({ documentId, terms }) => {
+    setFinancing("fundsAmount", terms?.fundsAmount ?? null, documentId);
+    if (financing.lender == null) {
+      setFinancing("lender", terms?.lender ?? null, documentId);
+    }
+  });
+
+  // The supporting documents say what kind of buyer this is when the contract doesn't
+  if (offer.buyerType == null) {
+    if (financing.preApprovedAmount != null) {
+      offer.buyerType = "pre-approved";
+      sources.buyerType = sources.preApprovedAmount;
+    } else if (financing.fundsAmount != null && financing.loanAmount == null
+      && offer.price != null && financing.fundsAmount >= offer.price) {
+      offer.buyerType = "cash";
+      sources.buyerType = sources.fundsAmount;
+    }
+  }
+
+  return { offer, financing, sources };
+}
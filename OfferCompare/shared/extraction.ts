@@ -0,0 +1,217 @@
+import type { CommissionTerms } from "./commission";
+import type { NetSheet } from "./net-sheet";
+
+// Where each value extracted from an offer document came from, and how sure
+// the extraction is about it, so the agent knows which fields to check.
+
+export const EXTRACTED_FIELDS = [
+  "buyerName",
+  "buyerType",
+  "price",
+  "commission",
+  "closingTimelineDays",
+  "contingencies",
+  "notes",
+] as const;
+
+export type ExtractedField = typeof EXTRACTED_FIELDS[number];
+
+export const EXTRACTED_FIELD_LABELS: Record<ExtractedField, string> = {
+  buyerName: "Buyer Name",
+  buyerType: "Buyer Type",
+  price: "Offer Price",
+  commission: "Commission",
+  closingTimelineDays: "Closing Timeline",
+  contingencies: "Contingencies",
+  notes: "Notes",
+};
+
+// Fields below this confidence (0-1) are highlighted for review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export interface FieldCitation {
+  pageNumber: number;
+  quote: string; // the document text the value was read from
+  // Character offsets of the quote in the page text, or null when the quote
+  // couldn't be found on the page
+  start: number | null;
+  end: number | null;
+}
+
+export interface FieldEvidence {
+  confidence: number; // 0-1
+  citation: FieldCitation | null; // null when the value wasn't read from the document
+}
+
+export type ExtractionEvidence = Partial<Record<ExtractedField, FieldEvidence>>;
+
+/**
+ * Whether a field should be checked by hand before the offer is saved
+ */
+export function isLowConfidence(evidence: FieldEvidence | undefined): boolean {
+  return !evidence || evidence.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+// Values read from an offer document. Anything the document doesn't state is null.
+export interface ExtractedOffer {
+  buyerName: string | null;
+  buyerType: string | null; // "cash", "first-time", "pre-approved", etc.
+  price: number | null;
+  commission: CommissionTerms | null;
+  closingTimelineDays: number | null;
+  contingencies: string[] | null;
+  notes: string | null;
+}
+
+// Without these an extraction is only partial and the agent fills in the rest
+export const REQUIRED_EXTRACTED_FIELDS: ExtractedField[] = ["buyerName", "price", "closingTimelineDays"];
+
+// queued: waiting for its first attempt or a retry. processing: an attempt is running.
+export const EXTRACTION_STATUSES = ["queued", "processing", "succeeded", "partial", "failed"] as const;
+
+export type ExtractionStatus = typeof EXTRACTION_STATUSES[number];
+
+export const EXTRACTION_STATUS_LABELS: Record<ExtractionStatus, string> = {
+  queued: "Queued",
+  processing: "Reading",
+  succeeded: "Ready",
+  partial: "Needs details",
+  failed: "Failed",
+};
+
+// Still waiting for an attempt to finish
+export function isExtractionPending(status: ExtractionStatus): boolean {
+  return status === "queued" || status === "processing";
+}
+
+export const EXTRACTION_FAILURE_REASONS = [
+  "not_configured",
+  "provider_error",
+  "invalid_response",
+  "no_offer_found",
+  "unreadable_document",
+] as const;
+
+export type ExtractionFailureReason = typeof EXTRACTION_FAILURE_REASONS[number];
+
+export const EXTRACTION_FAILURE_MESSAGES: Record<ExtractionFailureReason, string> = {
+  not_configured: "Automatic extraction isn't set up on this server.",
+  provider_error: "The extraction service couldn't be reached.",
+  invalid_response: "The extraction service returned an answer that couldn't be used.",
+  no_offer_found: "No offer details were found in the document.",
+  unreadable_document: "The document couldn't be read.",
+};
+
+// Pages of the document and how each was read
+export interface ExtractedDocumentSummary {
+  format: string;
+  pageCount: number;
+  pages: { pageNumber: number; source: "text" | "ocr"; confidence: number | null }[];
+}
+
+export const FINANCING_TYPES = ["cash", "conventional", "fha", "va", "seller", "other"] as const;
+
+export type FinancingType = typeof FINANCING_TYPES[number];
+
+export const FINANCING_TYPE_LABELS: Record<FinancingType, string> = {
+  cash: "All cash",
+  conventional: "Conventional loan",
+  fha: "FHA loan",
+  va: "VA loan",
+  seller: "Seller financing",
+  other: "Loan",
+};
+
+// Contingencies standard forms give a number of days to remove
+export const CONTINGENCY_PERIODS = ["inspection", "loan", "appraisal"] as const;
+
+export type ContingencyPeriod = typeof CONTINGENCY_PERIODS[number];
+
+// The contingency each period belongs to, named as on the offer form
+export const CONTINGENCY_PERIOD_NAMES: Record<ContingencyPeriod, string> = {
+  inspection: "Inspection",
+  loan: "Financing",
+  appraisal: "Appraisal",
+};
+
+// Terms read from a recognised standard purchase agreement form, beyond the
+// fields of ExtractedOffer
+export interface FormTerms {
+  formId: string; // e.g. "car-rpa"
+  formName: string;
+  earnestMoney: number | null;
+  financingType: FinancingType | null;
+  loanAmount: number | null;
+  contingencyPeriods: Partial<Record<ContingencyPeriod, number>>; // days after acceptance
+  closeDate: string | null; // ISO date, when the form gives a date instead of a number of days
+}
+
+// What a completed extraction found, stored with the extraction
+export interface ExtractionResult {
+  extractor: string; // provider or form template that read the document, e.g. "openai" or "template:car-rpa"
+  offer: ExtractedOffer;
+  evidence: ExtractionEvidence;
+  form: FormTerms | null; // set when the document is a recognised standard form
+  netSheet: NetSheet | null;
+  document: ExtractedDocumentSummary;
+  pageText?: string[]; // text of each page, for showing the document next to the values. Not kept before reviews existed
+}
+
+/**
+ * Status of an extraction that finished: partial when a required field is
+ * missing, failed when nothing at all was found
+ */
+export function extractionStatusFor(offer: ExtractedOffer): "succeeded" | "partial" | "failed" {
+  if (EXTRACTED_FIELDS.every(field => offer[field] == null)) {
+    return "failed";
+  }
+  return REQUIRED_EXTRACTED_FIELDS.every(field => offer[field] != null) ? "succeeded" : "partial";
+}
+
+// A field the agent changed from what the document said, when confirming the offer
+export interface FieldCorrection {
+  field: ExtractedField;
+  extracted: unknown; // null when the extraction didn't find the field
+  confirmed: unknown;
+}
+
+// Comparable form of a field value: empty values are null, and lists ignore order
+function normalizeFieldValue(value: unknown): unknown {
+  if (value == null || value === "" || (Array.isArray(value) && value.length === 0)) {
+    return null;
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim().replace(/\s+/g, " ");
+    const number = Number(trimmed);
+    return trimmed === "" ? null : Number.isFinite(number) ? number : trimmed;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => JSON.stringify(normalizeFieldValue(item))).sort();
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, normalizeFieldValue(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Whether two values of a field say the same thing, e.g. "400000" and 400000,
+ * or the same contingencies in another order. An empty list matches null.
+ */
+export function fieldValuesMatch(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeFieldValue(a)) === JSON.stringify(normalizeFieldValue(b));
+}
+
+/**
+ * The extracted fields whose confirmed value differs from what was extracted,
+ * including fields the extraction missed and the agent filled in
+ */
+export function fieldCorrections(extracted: ExtractedOffer, confirmed: Partial<Record<ExtractedField, unknown>>): FieldCorrection[] {
+  return EXTRACTED_FIELDS
+    .filter(field => !fieldValuesMatch(extracted[field], confirmed[field]))
+    .map(field => ({ field, extracted: extracted[field], confirmed: confirmed[field] ?? null }));
+}
@@ -0,0 +1,182 @@
+import type { Offer } from "./schema";
+
+// Negotiation threads: an offer, the counters to it, the counters to those, and
+// so on. Each round records which side wrote it.
+
+export const NEGOTIATION_SIDES = ["buyer", "seller"] as const;
+export type NegotiationSide = typeof NEGOTIATION_SIDES[number];
+
+export const NEGOTIATION_SIDE_LABELS: Record<NegotiationSide, string> = {
+  buyer: "Buyer",
+  seller: "Seller",
+};
+
+export interface NegotiationNode {
+  offer: Offer;
+  children: NegotiationNode[]; // counters to this offer, oldest first
+}
+
+export interface NegotiationThread {
+  rootOfferId: number;
+  latestOfferId: number;
+  offers: Offer[]; // every round, in version order
+  tree: NegotiationNode;
+}
+
+// Thread fields the server assigns when an offer is created
+export type NegotiationFields = Pick<Offer, "parentOfferId" | "versionNumber" | "isCounterOffer" | "authoredBy">;
+
+// Terms a counter offer inherits unless it changes them
+const COUNTER_OFFER_COPIED_FIELDS = [
+  "buyerName",
+  "buyerType",
+  "price",
+  "commission",
+  "sellerConcessions",
+  "closingDate",
+  "closingTimelineDays",
+  "contingencies",
+] as const;
+
+function byVersion(a: Offer, b: Offer): number {
+  return a.versionNumber - b.versionNumber || a.id - b.id;
+}
+
+/**
+ * First offer of the thread an offer belongs to, following parent links up
+ * as far as they go
+ */
+export function findNegotiationRoot(offer: Offer, offers: Offer[]): Offer {
+  const offersById = new Map(offers.map(o => [o.id, o]));
+  const visited = new Set<number>([offer.id]);
+  let current = offer;
+
+  while (current.parentOfferId != null) {
+    const parent = offersById.get(current.parentOfferId);
+    // Stop at a missing parent or a cycle rather than looping forever
+    if (!parent || visited.has(parent.id)) {
+      break;
+    }
+    visited.add(parent.id);
+    current = parent;
+  }
+
+  return current;
+}
+
+/**
+ * Every offer in the same thread as `offerId`, in version order. `offers` is
+ * usually all offers on the listing.
+ */
+export function collectNegotiationThread(offers: Offer[], offerId: number): Offer[] {
+  const offer = offers.find(o => o.id === offerId);
+  if (!offer) {
+    return [];
+  }
+
+  const root = findNegotiationRoot(offer, offers);
+  const thread = new Map<number, Offer>([[root.id, root]]);
+
+  // Keep pulling in counters to offers already in the thread until nothing new turns up
+  let added = true;
+  while (added) {
+    added = false;
+    for (const candidate of offers) {
+      if (!thread.has(candidate.id) && candidate.parentOfferId != null && thread.has(candidate.parentOfferId)) {
+        thread.set(candidate.id, candidate);
+        added = true;
+      }
+    }
+  }
+
+  return Array.from(thread.values()).sort(byVersion);
+}
+
+/**
+ * Ids of the latest round of each thread among `offers`. Deleted rounds are
+ * never the latest, but still hold their thread together.
+ */
+export function latestNegotiationRoundIds(offers: Offer[]): Set<number> {
+  const latestByRoot = new Map<number, Offer>();
+  for (const offer of offers) {
+    if (offer.deletedAt != null) {
+      continue;
+    }
+    const rootId = findNegotiationRoot(offer, offers).id;
+    const latest = latestByRoot.get(rootId);
+    if (!latest || byVersion(latest, offer) < 0) {
+      latestByRoot.set(rootId, offer);
+    }
+  }
+  return new Set(Array.from(latestByRoot.values()).map(offer => offer.id));
+}
+
+/**
+ * Arrange the offers of one thread into a tree under the root offer
+ */
+export function buildNegotiationThread(threadOffers: Offer[]): NegotiationThread | undefined {
+  if (threadOffers.length === 0) {
+    return undefined;
+  }
+
+  const offers = [...threadOffers].sort(byVersion);
+  const root = findNegotiationRoot(offers[0], offers);
+  const nodes = new Map<number, NegotiationNode>(offers.map(offer => [offer.id, { offer, children: [] }]));
+
+  offers.forEach(offer => {
+    if (offer.id !== root.id && offer.parentOfferId != null) {
+      nodes.get(offer.parentOfferId)?.children.push(nodes.get(offer.id)!);
+    }
+  });
+
+  return {
+    rootOfferId: root.id,
+    latestOfferId: offers[offers.length - 1].id,
+    offers,
+    tree: nodes.get(root.id)!,
+  };
+}
+
+/**
+ * Version number, counter flag and author for a new offer. Versions number the
+ * rounds of the whole thread, so two counters to the same offer get different
+ * versions. A counter is written by the other side unless stated otherwise.
+ */
+export function negotiationFieldsFor(
+  parentOffer: Offer | undefined,
+  threadOffers: Offer[],
+  authoredBy?: NegotiationSide | null
+): NegotiationFields {
+  if (!parentOffer) {
+    return { parentOfferId: null, versionNumber: 1, isCounterOffer: false, authoredBy: authoredBy ?? "buyer" };
+  }
+
+  const latestVersion = Math.max(parentOffer.versionNumber, ...threadOffers.map(o => o.versionNumber));
+  return {
+    parentOfferId: parentOffer.id,
+    versionNumber: latestVersion + 1,
+    isCounterOffer: true,
+    authoredBy: authoredBy ?? counterSide(parentOffer),
+  };
+}
+
+/**
+ * The side expected to answer an offer
+ */
+export function counterSide(offer: Pick<Offer, "authoredBy">): NegotiationSide {
+  return offer.authoredBy === "seller" ? "buyer" : "seller";
+}
+
+/**
+ * Terms of an offer to start a counter from. Empty values are left out so the
+ * result can be validated like a new offer.
+ */
+export function counterOfferTermsFrom(offer: Offer): Partial<Pick<Offer, typeof COUNTER_OFFER_COPIED_FIELDS[number]>> {
+  const terms: Partial<Pick<Offer, typeof COUNTER_OFFER_COPIED_FIELDS[number]>> = {};
+  for (const field of COUNTER_OFFER_COPIED_FIELDS) {
+    if (offer[field] != null) {
+      Object.assign(terms, { [field]: offer[field] });
+    }
+  }
+  return terms;
+}
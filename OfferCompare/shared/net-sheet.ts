@@ -0,0 +1,185 @@
+import type { Listing } from "./schema";
+import { CommissionCharge, CommissionTerms, calculateCommission } from "./commission";
+import {
+  AppliedClosingCostRule,
+  ClosingCostRule,
+  appliedRule,
+  calculateTransferTax,
+  findClosingCostRule,
+} from "./closing-cost-rules";
+
+// Seller net sheet: every cost deducted from the sale price at closing
+
+export type NetSheetItemKey =
+  | CommissionCharge["key"]
+  | "titleEscrow"
+  | "transferTax"
+  | "mansionTax"
+  | "closingFee"
+  | "sellerConcessions"
+  | "propertyTaxProration"
+  | "hoaDues"
+  | "loanPayoff";
+
+export interface NetSheetLineItem {
+  key: NetSheetItemKey;
+  label: string;
+  amount: number; // dollars paid by the seller
+  note?: string;
+}
+
+export interface NetSheet {
+  salePrice: number;
+  closingDate: string; // ISO date the prorations were calculated for
+  items: NetSheetLineItem[];
+  totalCosts: number;
+  netProceeds: number;
+  rule: AppliedClosingCostRule; // closing-cost rule the taxes and fees came from
+}
+
+export interface NetSheetInput {
+  price: number;
+  commission?: CommissionTerms | null;
+  sellerConcessions?: number | null;
+  closingDate?: Date | string | null;
+  closingTimelineDays?: number | null;
+  loanBalance?: number | null;
+  annualPropertyTax?: number | null;
+  hoaMonthlyDues?: number | null;
+  // Property location, used to pick the closing-cost rule
+  state?: string | null;
+  county?: string | null;
+}
+
+// Closing timeline assumed when an offer doesn't state one
+const DEFAULT_CLOSING_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Itemize the seller's closing costs for an offer and the resulting net proceeds
+ */
+export function calculateNetSheet(
+  input: NetSheetInput,
+  rule: ClosingCostRule = findClosingCostRule(input.state, input.county)
+): NetSheet {
+  const price = Number(input.price) || 0;
+  const closingDate = resolveClosingDate(input);
+  const items: NetSheetLineItem[] = [];
+
+  items.push(...calculateCommission(input.commission, price).charges);
+
+  if (rule.titleEscrowRate > 0) {
+    items.push({
+      key: "titleEscrow",
+      label: "Title & Escrow Fees",
+      amount: roundCents(price * rule.titleEscrowRate),
+    });
+  }
+
+  for (const tax of rule.transferTaxes) {
+    const amount = calculateTransferTax(tax, price);
+    if (amount > 0) {
+      items.push({
+        key: tax.kind,
+        label: tax.name,
+        amount,
+        note: tax.sellerShare < 1 ? `Seller pays ${Math.round(tax.sellerShare * 100)}%` : undefined,
+      });
+    }
+  }
+
+  for (const fee of rule.fees) {
+    items.push({ key: "closingFee", label: fee.name, amount: fee.amount });
+  }
+
+  const sellerConcessions = Number(input.sellerConcessions) || 0;
+  if (sellerConcessions > 0) {
+    items.push({ key: "sellerConcessions", label: "Seller Concessions", amount: sellerConcessions });
+  }
+
+  // Property taxes are paid in arrears, so the seller credits the buyer for
+  // the part of the year they owned the home
+  const annualPropertyTax = Number(input.annualPropertyTax) || 0;
+  if (annualPropertyTax > 0) {
+    const startOfYear = Date.UTC(closingDate.getUTCFullYear(), 0, 1);
+    const daysInYear = isLeapYear(closingDate.getUTCFullYear()) ? 366 : 365;
+    const daysOwned = Math.round((closingDate.getTime() - startOfYear) / DAY_MS);
+    items.push({
+      key: "propertyTaxProration",
+      label: "Property Tax Proration",
+      amount: roundCents(annualPropertyTax * daysOwned / daysInYear),
+      note: `${daysOwned} of ${daysInYear} days`,
+    });
+  }
+
+  // HOA dues for the closing month up to the closing day
+  const hoaMonthlyDues = Number(input.hoaMonthlyDues) || 0;
+  if (hoaMonthlyDues > 0) {
+    const day = closingDate.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(closingDate.getUTCFullYear(), closingDate.getUTCMonth() + 1, 0)).getUTCDate();
+    items.push({
+      key: "hoaDues",
+      label: "HOA Dues",
+      amount: roundCents(hoaMonthlyDues * day / daysInMonth),
+      note: `${day} of ${daysInMonth} days`,
+    });
+  }
+
+  const loanBalance = Number(input.loanBalance) || 0;
+  if (loanBalance > 0) {
+    items.push({ key: "loanPayoff", label: "Loan Payoff", amount: loanBalance });
+  }
+
+  const totalCosts = roundCents(items.reduce((sum, item) => sum + item.amount, 0));
+
+  return {
+    salePrice: price,
+    closingDate: closingDate.toISOString().slice(0, 10),
+    items,
+    totalCosts,
+    netProceeds: roundCents(price - totalCosts),
+    rule: appliedRule(rule),
+  };
+}
+
+/**
+ * Combine an offer's terms with the listing's location, payoff, tax and HOA figures
+ */
+export function netSheetInputFor(
+  offer: Pick<NetSheetInput, "price" | "commission" | "sellerConcessions" | "closingDate" | "closingTimelineDays">,
+  listing: Pick<Listing, "state" | "county" | "loanBalance" | "annualPropertyTax" | "hoaMonthlyDues">
+): NetSheetInput {
+  return {
+    price: Number(offer.price),
+    commission: offer.commission,
+    sellerConcessions: offer.sellerConcessions,
+    closingDate: offer.closingDate,
+    closingTimelineDays: offer.closingTimelineDays,
+    loanBalance: Number(listing.loanBalance || 0),
+    annualPropertyTax: Number(listing.annualPropertyTax || 0),
+    hoaMonthlyDues: Number(listing.hoaMonthlyDues || 0),
+    state: listing.state,
+    county: listing.county,
+  };
+}
+
+function resolveClosingDate(input: NetSheetInput): Date {
+  if (input.closingDate) {
+    const date = new Date(input.closingDate);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  const days = Number(input.closingTimelineDays) || DEFAULT_CLOSING_DAYS;
+  const today = new Date();
+  return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()) + days * DAY_MS);
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
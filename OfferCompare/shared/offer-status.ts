@@ -0,0 +1,60 @@
+// Offer lifecycle. Every status change goes through canTransitionOffer so an
+// offer can't, for example, be accepted after the buyer withdrew it.
+
+export const OFFER_STATUSES = [
+  "pending",   // received, awaiting the seller's response
+  "countered", // the seller answered with a counter offer
+  "accepted",
+  "backup",    // kept in line in case the accepted offer falls through
+  "rejected",
+  "withdrawn", // pulled by the buyer
+  "expired",   // the response deadline passed
+] as const;
+
+export type OfferStatus = typeof OFFER_STATUSES[number];
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  pending: "Pending",
+  countered: "Countered",
+  accepted: "Accepted",
+  backup: "Backup",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  expired: "Expired",
+};
+
+export const OFFER_TRANSITIONS: Record<OfferStatus, readonly OfferStatus[]> = {
+  pending: ["countered", "accepted", "backup", "rejected", "withdrawn", "expired"],
+  countered: ["accepted", "rejected", "withdrawn", "expired"],
+  // An accepted offer can still fall through before closing
+  accepted: ["withdrawn", "rejected"],
+  backup: ["accepted", "rejected", "withdrawn", "expired"],
+  rejected: [],
+  withdrawn: [],
+  expired: [],
+};
+
+// Offers still competing for the listing
+export const OPEN_OFFER_STATUSES: readonly OfferStatus[] = ["pending", "countered", "backup"];
+
+// Endpoint actions (POST /api/offers/:id/<action>) and the status each one sets
+export const OFFER_STATUS_ACTIONS = {
+  accept: "accepted",
+  reject: "rejected",
+  withdraw: "withdrawn",
+  expire: "expired",
+  backup: "backup",
+} as const satisfies Record<string, OfferStatus>;
+
+export type OfferStatusAction = keyof typeof OFFER_STATUS_ACTIONS;
+
+export function isOfferStatus(value: unknown): value is OfferStatus {
+  return typeof value === "string" && (OFFER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether an offer in status `from` may move to `to`
+ */
+export function canTransitionOffer(from: string, to: OfferStatus): boolean {
+  return isOfferStatus(from) && OFFER_TRANSITIONS[from].includes(to);
+}
@@ -1,7 +1,12 @@
-import { pgTable, text, serial, integer, numeric, boolean, jsonb, timestamp, uuid, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, numeric, boolean, jsonb, timestamp, uuid, foreignKey, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
+import type { NetSheet } from "./net-sheet";
+import { commissionTermsSchema, type CommissionTerms } from "./commission";
+import { NEGOTIATION_SIDES } from "./negotiation";
+import type { ExtractionResult, FieldCorrection } from "./extraction";
+import { DOCUMENT_KINDS, type SupportingDocumentTerms } from "./documents";
 
 // Users table
 export const users = pgTable("users", {
@@ -27,10 +32,13 @@ export const listings = pgTable("listings", {
   userId: integer("user_id").notNull().references(() => users.id),
   address: text("address").notNull(),
   city: text("city").notNull(),
+  county: text("county"),
   state: text("state").notNull(),
   zipCode: text("zip_code").notNull(),
   price: numeric("price").notNull(),
   loanBalance: numeric("loan_balance"),
+  annualPropertyTax: numeric("annual_property_tax"),
+  hoaMonthlyDues: numeric("hoa_monthly_dues"),
   bedrooms: integer("bedrooms").notNull(),
   bathrooms: numeric("bathrooms").notNull(),
   sqft: integer("sqft"),
@@ -50,6 +58,12 @@ export const insertListingSchema = createInsertSchema(listings)
     loanBalance: z.union([z.string(), z.number(), z.undefined()]).transform(val => 
       typeof val === 'string' ? parseFloat(val) : val
     ).optional(),
+    annualPropertyTax: z.union([z.string(), z.number(), z.undefined()]).transform(val => 
+      typeof val === 'string' ? parseFloat(val) : val
+    ).optional(),
+    hoaMonthlyDues: z.union([z.string(), z.number(), z.undefined()]).transform(val => 
+      typeof val === 'string' ? parseFloat(val) : val
+    ).optional(),
     bathrooms: z.union([z.string(), z.number()]).transform(val => 
       typeof val === 'string' ? parseFloat(val) : val
     ),
@@ -67,31 +81,65 @@ export const insertListingSchema = createInsertSchema(listings)
     listedDate: true,
   });
 
+// Offer scoring categories, one per listing priority
+export const SCORE_CATEGORIES = [
+  "offerPrice",
+  "netProceeds",
+  "closingTimeline",
+  "contingencies",
+  "buyerQualification",
+] as const;
+
+export type ScoreCategory = typeof SCORE_CATEGORIES[number];
+
+export const SCORE_CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  offerPrice: "Offer Price",
+  netProceeds: "Net Proceeds",
+  closingTimeline: "Closing Timeline",
+  contingencies: "Contingencies",
+  buyerQualification: "Buyer Qualification",
+};
+
+export interface CategoryScore {
+  rawValue: number | null; // dollars, days, number of contingencies or buyer qualification level (1-10); null when the offer doesn't say
+  normalizedScore: number; // 0-1, relative to the competing offers on the listing
+  weight: number; // priority weight the score was combined with
+  weightedContribution: number; // points this category adds to the 0-100 overall score
+}
+
+export type ScoreBreakdown = Record<ScoreCategory, CategoryScore>;
+
 // Offers table
 export const offers = pgTable("offers", {
   id: serial("id").primaryKey(),
   listingId: integer("listing_id").notNull().references(() => listings.id),
   userId: integer("user_id").notNull().references(() => users.id),
   // Parent-child relationship for counter offers
-  parentOfferId: integer("parent_offer_id").references(() => offers.id),
+  parentOfferId: integer("parent_offer_id").references((): AnyPgColumn => offers.id),
   versionNumber: integer("version_number").default(1).notNull(),
   isCounterOffer: boolean("is_counter_offer").default(false).notNull(),
+  authoredBy: text("authored_by").default("buyer").notNull(), // "buyer" or "seller"
   buyerName: text("buyer_name").notNull(),
   buyerType: text("buyer_type"), // e.g., "first-time", "cash", "pre-approved"
   price: numeric("price").notNull(),
   netProceeds: numeric("net_proceeds"),
-  agentCommission: numeric("agent_commission"),
-  // Store whether commission is dollar or percentage value
-  commissionType: text("commission_type").default("dollar"),
+  // Itemized seller costs behind netProceeds
+  netSheet: jsonb("net_sheet").$type<NetSheet>(),
+  sellerConcessions: numeric("seller_concessions"),
+  // Listing/buyer-side commission, bonuses and referral fees, each with its basis
+  commission: jsonb("commission").$type<CommissionTerms>(),
   closingDate: timestamp("closing_date"),
   closingTimelineDays: integer("closing_timeline_days"),
   contingencies: jsonb("contingencies").default([]),
   riskScore: integer("risk_score"),
   overallScore: integer("overall_score"),
+  scoreBreakdown: jsonb("score_breakdown").$type<ScoreBreakdown>(),
   notes: text("notes"),
   status: text("status").notNull().default("pending"),
   documentUrl: text("document_url"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Set instead of removing the row, so the negotiation threads it belongs to stay intact
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const insertOfferSchema = createInsertSchema(offers)
@@ -100,7 +148,9 @@ export const insertOfferSchema = createInsertSchema(offers)
     price: z.union([z.string(), z.number()]).transform(val => 
       typeof val === 'string' ? parseFloat(val) : val
     ),
-    agentCommission: z.union([z.string(), z.number(), z.undefined()]).transform(val => 
+    commission: commissionTermsSchema.nullable().optional(),
+    authoredBy: z.enum(NEGOTIATION_SIDES).optional(),
+    sellerConcessions: z.union([z.string(), z.number(), z.undefined()]).transform(val => 
       typeof val === 'string' ? parseFloat(val) : val
     ).optional(),
     closingTimelineDays: z.union([z.string(), z.number(), z.undefined()]).transform(val => 
@@ -113,9 +163,34 @@ export const insertOfferSchema = createInsertSchema(offers)
     createdAt: true,
     riskScore: true,
     overallScore: true,
+    scoreBreakdown: true,
     netProceeds: true,
+    netSheet: true,
+    // Status only changes through the offer status transitions
+    status: true,
+    // Assigned by the server from the negotiation thread
+    parentOfferId: true,
+    versionNumber: true,
+    isCounterOffer: true,
+    deletedAt: true,
   });
 
+// Audit trail of offer status changes
+export const offerStatusEvents = pgTable("offer_status_events", {
+  id: serial("id").primaryKey(),
+  offerId: integer("offer_id").notNull().references(() => offers.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  note: text("note"), // e.g. "Another offer was accepted"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOfferStatusEventSchema = createInsertSchema(offerStatusEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Listing priorities table (for user weight preferences)
 export const listingPriorities = pgTable("listing_priorities", {
   id: serial("id").primaryKey(),
@@ -164,12 +239,97 @@ export const usageEvents = pgTable("usage_events", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertUsageEventSchema = createInsertSchema(usageEvents).omit({
-  id: true,
-  stripeInvoiceId: true,
-  stripeUsageRecordId: true,
-  processed: true,
-  createdAt: true,
+export const insertUsageEventSchema = createInsertSchema(usageEvents)
+  .extend({
+    // Allow string or number for numeric fields
+    amount: z.union([z.string(), z.number()]).transform(val => 
+      typeof val === 'string' ? parseFloat(val) : val
+    ),
+  })
+  .omit({
+    id: true,
+    stripeInvoiceId: true,
+    stripeUsageRecordId: true,
+    processed: true,
+    createdAt: true,
+  });
+
+// Uploaded offer documents. The file itself is kept in the document store
+// (server/document-storage.ts) under storageKey. An offer can have several,
+// e.g. the contract, addenda and a pre-approval letter. Uploading a new
+// version of one supersedes the old row, which is kept for the history.
+export const documents = pgTable("documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  listingId: integer("listing_id").notNull().references(() => listings.id),
+  offerId: integer("offer_id").references(() => offers.id), // set once an offer is created from it
+  kind: text("kind").notNull().default("contract"), // DocumentKind
+  version: integer("version").notNull().default(1),
+  previousVersionId: integer("previous_version_id").references((): AnyPgColumn => documents.id),
+  supersededAt: timestamp("superseded_at"), // set when a newer version is uploaded
+  // What a pre-approval letter or proof of funds says. Contracts and addenda
+  // are read by a document extraction instead.
+  terms: jsonb("terms").$type<SupportingDocumentTerms>(),
+  storageKey: text("storage_key").notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertDocumentSchema = createInsertSchema(documents)
+  .extend({
+    kind: z.enum(DOCUMENT_KINDS).optional(),
+    terms: z.custom<SupportingDocumentTerms>().nullable().optional(),
+  })
+  .pick({
+    userId: true,
+    listingId: true,
+    offerId: true,
+    kind: true,
+    version: true,
+    previousVersionId: true,
+    terms: true,
+    storageKey: true,
+    fileName: true,
+    contentType: true,
+    size: true,
+  });
+
+// Documents sent for extraction. Attempts that fail for a temporary reason are
+// retried by the extraction queue, and only completed extractions are billed.
+export const documentExtractions = pgTable("document_extractions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  listingId: integer("listing_id").notNull().references(() => listings.id),
+  documentId: integer("document_id").notNull().references(() => documents.id),
+  fileName: text("file_name").notNull(),
+  status: text("status").notNull().default("queued"), // see EXTRACTION_STATUSES
+  failureReason: text("failure_reason"), // see EXTRACTION_FAILURE_REASONS
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // when a queued extraction is tried again
+  result: jsonb("result").$type<ExtractionResult>(),
+  usageEventId: integer("usage_event_id").references(() => usageEvents.id), // set once billed
+  batchId: text("batch_id"), // shared by the documents of one batch upload
+  // Review queue: set when the agent confirms the extraction into an offer, or dismisses it
+  offerId: integer("offer_id").references(() => offers.id),
+  dismissedAt: timestamp("dismissed_at"),
+  reviewedAt: timestamp("reviewed_at"), // claimed by a confirm or dismiss, so only one of them goes ahead
+  corrections: jsonb("corrections").$type<FieldCorrection[]>(), // what the agent changed when confirming
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertDocumentExtractionSchema = createInsertSchema(documentExtractions).pick({
+  userId: true,
+  listingId: true,
+  documentId: true,
+  fileName: true,
+  batchId: true,
+  // Set for extractions that are attempted as soon as they're created
+  status: true,
+  attempts: true,
+  offerId: true,
 });
 
 // Sessions table for auth
@@ -189,10 +349,19 @@ export type Listing = typeof listings.$inferSelect;
 export type InsertOffer = z.infer<typeof insertOfferSchema>;
 export type Offer = typeof offers.$inferSelect;
 
+export type InsertOfferStatusEvent = z.infer<typeof insertOfferStatusEventSchema>;
+export type OfferStatusEvent = typeof offerStatusEvents.$inferSelect;
+
 export type InsertListingPriorities = z.infer<typeof insertListingPrioritiesSchema>;
 export type ListingPriorities = typeof listingPriorities.$inferSelect;
 
 export type InsertUsageEvent = z.infer<typeof insertUsageEventSchema>;
 export type UsageEvent = typeof usageEvents.$inferSelect;
 
+export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+export type Document = typeof documents.$inferSelect;
+
+export type InsertDocumentExtraction = z.infer<typeof insertDocumentExtractionSchema>;
+export type DocumentExtraction = typeof documentExtractions.$inferSelect;
+
 export type Session = typeof sessions.$inferSelect;